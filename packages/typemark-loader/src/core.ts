@@ -0,0 +1,90 @@
+import { resolve } from "node:path";
+import {
+  applyLayout,
+  compileToString,
+  configFiles,
+  parse,
+  resolveLayoutChain,
+  type CompileOptions,
+  type EscapeMode,
+  type EscapePolicy,
+} from "typemark";
+
+/** Options shared by every bundler plugin */
+export interface TypemarkPluginOptions
+  extends Pick<CompileOptions, "validate" | "strict" | "normalize" | "enforceBudget"> {
+  /**
+   * Path of a module whose named exports are helpers in every template,
+   * instead of the one named in `typemark.config.json`
+   */
+  helpers?: string;
+  /**
+   * Escaping policy for templates that declare none, themselves or through
+   * their layout
+   */
+  escape?: EscapeMode | EscapePolicy;
+}
+
+/** Files matched by the plugins */
+export const MDT_FILTER = /\.mdt$/;
+
+export interface LoadedTemplate {
+  /** The compiled ES module, without its inline source map */
+  code: string;
+  /** Source map of `code` */
+  map: SourceMap;
+  /**
+   * Files compiled into the module besides the template itself, which the
+   * bundler must watch: its layouts, the helpers module when given, and
+   * `typemark.config.json` with the helpers and tokenizer modules it names.
+   * Partials are imports, so bundlers follow them on their own.
+   */
+  watchFiles: string[];
+}
+
+/** A version 3 source map, as bundlers take it */
+export interface SourceMap {
+  version: number;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
+}
+
+const INLINE_MAP = /\/\/# sourceMappingURL=data:application\/json;charset=utf-8;base64,(\S+)\n$/;
+
+/** Compile the `.mdt` file at `path`, whose text is `source`, into an ES module */
+export function loadTemplate(source: string, path: string, options: TypemarkPluginOptions = {}): LoadedTemplate {
+  const { escape, ...compileOptions } = options;
+  let parsed = parse(source, { filePath: path });
+  const layouts = parsed.layout ? resolveLayoutChain(parsed).map((layout) => layout.filePath!) : [];
+  if (escape && !applyLayout(parsed).escape) {
+    parsed = { ...parsed, escape: typeof escape === "string" ? { mode: escape } : escape };
+  }
+
+  const output = compileToString(parsed, compileOptions);
+  const inline = INLINE_MAP.exec(output);
+  const code = inline ? output.slice(0, inline.index) : output;
+  const { sourcesContent, ...emitted }: Omit<SourceMap, "sourcesContent"> & { sourcesContent?: (string | null)[] } =
+    inline
+      ? JSON.parse(Buffer.from(inline[1]!, "base64").toString("utf8"))
+      : { version: 3, sources: [], names: [], mappings: "" };
+  // Rollup and webpack take the text of every source or of none
+  const map: SourceMap = sourcesContent?.every((content): content is string => content !== null)
+    ? { ...emitted, sourcesContent }
+    : emitted;
+
+  return {
+    code,
+    map,
+    watchFiles: [
+      ...new Set([...layouts, ...(options.helpers ? [resolve(options.helpers)] : []), ...configFiles(parsed)]),
+    ],
+  };
+}
+
+/** `loaded.code` with its source map inline, for bundlers that read it from there */
+export function withInlineMap(loaded: LoadedTemplate): string {
+  const base64 = Buffer.from(JSON.stringify(loaded.map)).toString("base64");
+  return `${loaded.code}//# sourceMappingURL=data:application/json;charset=utf-8;base64,${base64}\n`;
+}
@@ -0,0 +1,35 @@
+import { readFile } from "node:fs/promises";
+import { loadTemplate, MDT_FILTER, withInlineMap, type TypemarkPluginOptions } from "./core.ts";
+
+export type { TypemarkPluginOptions };
+
+/** The part of esbuild's plugin API the plugin uses */
+export interface EsbuildPlugin {
+  name: string;
+  setup(build: {
+    onLoad(
+      options: { filter: RegExp },
+      callback: (args: { path: string }) => Promise<{ contents: string; loader: "js"; watchFiles?: string[] }>,
+    ): void;
+  }): void;
+}
+
+/**
+ * An esbuild plugin compiling imported `.mdt` files. In watch mode, a
+ * template is rebuilt when it or its layouts change.
+ *
+ * ```ts
+ * await esbuild.build({ entryPoints: ["src/index.ts"], bundle: true, plugins: [typemark()] });
+ * ```
+ */
+export default function typemark(options: TypemarkPluginOptions = {}): EsbuildPlugin {
+  return {
+    name: "typemark",
+    setup(build) {
+      build.onLoad({ filter: MDT_FILTER }, async (args) => {
+        const loaded = loadTemplate(await readFile(args.path, "utf8"), args.path, options);
+        return { contents: withInlineMap(loaded), loader: "js", watchFiles: loaded.watchFiles };
+      });
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Node module customization hooks compiling `.mdt` imports, registered by
+ * `typemark-loader/node`. The types are the parts of Node's hook API the
+ * hooks use.
+ */
+
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { loadTemplate, MDT_FILTER, withInlineMap } from "./core.ts";
+
+interface ResolveContext {
+  conditions: string[];
+  importAttributes: Record<string, string>;
+  parentURL?: string;
+}
+
+interface ResolveResult {
+  url: string;
+  format?: string | null;
+  shortCircuit?: boolean;
+}
+
+interface LoadContext {
+  conditions: string[];
+  format?: string | null;
+  importAttributes: Record<string, string>;
+}
+
+interface LoadResult {
+  format: string;
+  source?: string | ArrayBuffer | Uint8Array;
+  shortCircuit?: boolean;
+}
+
+/** Format given to resolved `.mdt` URLs, which only {@link load} handles */
+const FORMAT = "typemark";
+
+export async function resolve(
+  specifier: string,
+  context: ResolveContext,
+  nextResolve: (specifier: string, context?: ResolveContext) => Promise<ResolveResult>,
+): Promise<ResolveResult> {
+  const resolved = await nextResolve(specifier, context);
+  if (!MDT_FILTER.test(new URL(resolved.url).pathname)) return resolved;
+  return { ...resolved, format: FORMAT, shortCircuit: true };
+}
+
+export async function load(
+  url: string,
+  context: LoadContext,
+  nextLoad: (url: string, context?: LoadContext) => Promise<LoadResult>,
+): Promise<LoadResult> {
+  if (context.format !== FORMAT && !MDT_FILTER.test(new URL(url).pathname)) return nextLoad(url, context);
+
+  const path = fileURLToPath(url);
+  const source = await readFile(path, "utf8");
+  return { format: "module", source: withInlineMap(loadTemplate(source, path)), shortCircuit: true };
+}
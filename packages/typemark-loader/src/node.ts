@@ -0,0 +1,8 @@
+import { register } from "node:module";
+
+/**
+ * Register the `.mdt` hooks with Node's module loader. Load it before the
+ * app with `node --import typemark-loader/node app.js`. The hooks module is
+ * the one next to this file, compiled in the published package.
+ */
+register(import.meta.url.endsWith(".ts") ? "./hooks.ts" : "./hooks.js", import.meta.url);
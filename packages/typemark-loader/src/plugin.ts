@@ -1,16 +1,14 @@
 import { plugin } from "bun";
-import { parse, compileToString } from "typemark";
+import { loadTemplate, MDT_FILTER, withInlineMap } from "./core.ts";
 
 plugin({
   name: "typemark",
   setup(build) {
-    build.onLoad({ filter: /\.mdt$/ }, async (args) => {
+    build.onLoad({ filter: MDT_FILTER }, async (args) => {
       const source = await Bun.file(args.path).text();
-      const parsed = parse(source);
-      const contents = compileToString(parsed);
 
       return {
-        contents,
+        contents: withInlineMap(loadTemplate(source, args.path)),
         loader: "js",
       };
     });
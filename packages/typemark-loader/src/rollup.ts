@@ -0,0 +1,72 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { loadTemplate, MDT_FILTER, type SourceMap, type TypemarkPluginOptions } from "./core.ts";
+
+export type { TypemarkPluginOptions };
+
+/** The part of a Rollup or Vite plugin context the plugin uses */
+interface PluginContext {
+  addWatchFile(id: string): void;
+}
+
+/** A module in Vite's module graph */
+interface ModuleNode {
+  file: string | null;
+}
+
+/** The part of Vite's `handleHotUpdate` context the plugin uses */
+interface HotUpdateContext {
+  file: string;
+  modules: ModuleNode[];
+  server: { moduleGraph: { getModulesByFile(file: string): Set<ModuleNode> | undefined } };
+}
+
+/** The hooks of the Rollup and Vite plugin */
+export interface RollupPlugin {
+  name: string;
+  enforce: "pre";
+  load(this: PluginContext, id: string): Promise<{ code: string; map: SourceMap } | null>;
+  handleHotUpdate(context: HotUpdateContext): ModuleNode[] | undefined;
+}
+
+/**
+ * A Rollup and Vite plugin compiling imported `.mdt` files.
+ *
+ * ```ts
+ * export default defineConfig({ plugins: [typemark()] });
+ * ```
+ *
+ * Layouts are compiled into the templates that use them, so they're added
+ * as watch files: Rollup's watch mode rebuilds a template when one of its
+ * layouts changes, and Vite's dev server sends its HMR update for the
+ * templates along with the layout.
+ */
+export default function typemark(options: TypemarkPluginOptions = {}): RollupPlugin {
+  // Templates by the layouts and helpers modules compiled into them
+  const dependents = new Map<string, Set<string>>();
+
+  return {
+    name: "typemark",
+    enforce: "pre",
+    async load(id) {
+      // Vite adds queries such as `?import` to module ids
+      const path = id.split("?")[0]!;
+      if (!MDT_FILTER.test(path)) return null;
+
+      const loaded = loadTemplate(await readFile(path, "utf8"), path, options);
+      for (const file of loaded.watchFiles) {
+        this.addWatchFile(file);
+        if (!dependents.has(file)) dependents.set(file, new Set());
+        dependents.get(file)!.add(path);
+      }
+      return { code: loaded.code, map: loaded.map };
+    },
+    handleHotUpdate({ file, modules, server }) {
+      const templates = dependents.get(resolve(file));
+      if (!templates) return undefined;
+
+      const affected = [...templates].flatMap((path) => [...(server.moduleGraph.getModulesByFile(path) ?? [])]);
+      return [...new Set([...modules, ...affected])];
+    },
+  };
+}
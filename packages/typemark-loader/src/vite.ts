@@ -0,0 +1,2 @@
+export { default } from "./rollup.ts";
+export type { RollupPlugin as VitePlugin, TypemarkPluginOptions } from "./rollup.ts";
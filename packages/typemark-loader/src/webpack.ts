@@ -0,0 +1,39 @@
+import { fileURLToPath } from "node:url";
+import { loadTemplate, MDT_FILTER, type SourceMap, type TypemarkPluginOptions } from "./core.ts";
+
+export type { TypemarkPluginOptions };
+
+/** The part of webpack's loader context the loader uses */
+export interface LoaderContext {
+  resourcePath: string;
+  getOptions(): TypemarkPluginOptions;
+  addDependency(file: string): void;
+  callback(error: Error | null, content?: string, map?: SourceMap): void;
+}
+
+/**
+ * A webpack loader compiling `.mdt` files. Layouts, the helpers module and
+ * `typemark.config.json` are added as dependencies, so watch mode rebuilds
+ * the templates using them. Add it to the config with {@link typemarkRule}.
+ */
+export default function typemarkLoader(this: LoaderContext, source: string): void {
+  try {
+    const loaded = loadTemplate(source, this.resourcePath, this.getOptions());
+    for (const file of loaded.watchFiles) this.addDependency(file);
+    this.callback(null, loaded.code, loaded.map);
+  } catch (error) {
+    this.callback(error as Error);
+  }
+}
+
+/**
+ * A `module.rules` entry loading `.mdt` files with this loader, which is
+ * `dist/webpack.js` when the package is installed, and the source under Bun:
+ *
+ * ```js
+ * module: { rules: [typemarkRule({ escape: "xml" })] }
+ * ```
+ */
+export function typemarkRule(options: TypemarkPluginOptions = {}) {
+  return { test: MDT_FILTER, loader: fileURLToPath(import.meta.url), options };
+}
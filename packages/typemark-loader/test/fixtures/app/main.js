@@ -0,0 +1,3 @@
+import greeting from "./prompts/greeting.mdt";
+
+export const text = greeting.render({ assistant: "a helper", name: "<Ada>" });
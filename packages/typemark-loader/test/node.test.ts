@@ -0,0 +1,100 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { cpSync } from "node:fs";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { TestFiles } from "../../typemark/test/files.ts";
+import { packedProject, runNode } from "../../typemark/test/node.ts";
+import { load, resolve } from "../src/hooks.ts";
+
+const app = join(import.meta.dir, "fixtures/app");
+const greeting = pathToFileURL(join(app, "prompts/greeting.mdt")).href;
+const context = { conditions: ["node", "import"], importAttributes: {} };
+
+describe("Node loader hooks", () => {
+  test("resolve() marks .mdt URLs for load()", async () => {
+    const nextResolve = async (specifier: string) => ({ url: new URL(specifier, `${greeting}/..`).href });
+    expect(await resolve("./signature.mdt", context, nextResolve)).toEqual({
+      url: pathToFileURL(join(app, "prompts/signature.mdt")).href,
+      format: "typemark",
+      shortCircuit: true,
+    });
+    expect(await resolve("./helpers.js", context, nextResolve)).toEqual({
+      url: pathToFileURL(join(app, "prompts/helpers.js")).href,
+    });
+  });
+
+  test("load() compiles .mdt files to ES modules", async () => {
+    const nextLoad = async () => ({ format: "builtin" });
+    const result = await load(greeting, { ...context, format: "typemark" }, nextLoad);
+    expect(result.format).toBe("module");
+    expect(result.shortCircuit).toBe(true);
+    expect(String(result.source)).toContain('import __partial_Signature from "./signature.mdt";');
+    expect(String(result.source)).toContain("//# sourceMappingURL=data:application/json");
+
+    expect(await load("node:fs", context, nextLoad)).toEqual({ format: "builtin" });
+  });
+});
+
+describe("installed from npm pack", () => {
+  let project: TestFiles;
+
+  // Packing builds both packages, which takes longer than a test
+  beforeAll(() => {
+    project = packedProject("typemark-packed-", ["webpack"]);
+    cpSync(app, project.dir, { recursive: true });
+  }, 300_000);
+  afterAll(() => project.remove());
+
+  test("node --import typemark-loader/node runs the fixture app", () => {
+    const result = runNode(
+      ["--import", "typemark-loader/node", "-e", 'console.log((await import("./main.js")).text)'],
+      project.dir,
+    );
+    expect(result.stderr).toBe("");
+    expect(result.stdout).toStartWith("You are a helper.");
+  });
+
+  test("the typemark CLI runs under node", () => {
+    const result = runNode([join(project.dir, "node_modules/.bin/typemark"), "stats"], project.dir);
+    expect(result.stderr).toBe("");
+    expect(result.status).toBe(0);
+    expect(result.stdout).toEndWith("typemark: 3 templates, 9 static tokens (approximate)\n");
+  });
+
+  test("typemarkRule() points webpack at the compiled loader", () => {
+    project.write(
+      "webpack.js",
+      `import webpack from "webpack";
+import { typemarkRule } from "typemark-loader/webpack";
+
+const rule = typemarkRule();
+console.log(rule.loader);
+webpack(
+  {
+    mode: "none",
+    target: "node",
+    devtool: false,
+    context: import.meta.dirname,
+    entry: "./main.js",
+    output: { path: import.meta.dirname + "/out", filename: "main.js", module: true, library: { type: "module" } },
+    experiments: { outputModule: true },
+    module: { rules: [rule] },
+  },
+  (error, stats) => {
+    if (error || stats.hasErrors()) {
+      console.error(error ?? stats.toString("errors-only"));
+      process.exitCode = 1;
+    }
+  },
+);
+`,
+    );
+    const build = runNode(["webpack.js"], project.dir);
+    expect(build.stderr).toBe("");
+    expect(build.stdout.trim()).toBe(join(project.dir, "node_modules/typemark-loader/dist/webpack.js"));
+
+    const result = runNode(["-e", 'console.log((await import("./out/main.js")).text)'], project.dir);
+    expect(result.stderr).toBe("");
+    expect(result.stdout).toStartWith("You are a helper.");
+  });
+});
@@ -0,0 +1,185 @@
+import { test, expect, describe, afterAll } from "bun:test";
+import { build } from "esbuild";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { rollup } from "rollup";
+import { webpack, type Stats } from "webpack";
+import { loadTemplate } from "../src/core.ts";
+import esbuildPlugin from "../src/esbuild.ts";
+import rollupPlugin from "../src/rollup.ts";
+import webpackLoader, { typemarkRule, type LoaderContext } from "../src/webpack.ts";
+
+const app = join(import.meta.dir, "fixtures/app");
+const greeting = join(app, "prompts/greeting.mdt");
+const options = { helpers: join(app, "helpers.js"), escape: "xml" as const };
+const expected = "You are a helper.\n\nHELLO! &lt;Ada&gt;.\n\n-- Support";
+
+const config = join(app, "typemark.config.json");
+const watched = [join(app, "prompts/base.mdt"), join(app, "helpers.js"), config];
+
+// Inside the package, so bundles leaving `typemark/*` external resolve it
+const out = mkdtempSync(join(import.meta.dir, ".tmp-plugins-"));
+
+afterAll(() => {
+  rmSync(out, { recursive: true, force: true });
+});
+
+/** Run a bundled `main.js` and return the text it rendered */
+async function run(name: string, code: string): Promise<string> {
+  const path = join(out, name);
+  writeFileSync(path, code);
+  return ((await import(path)) as { text: string }).text;
+}
+
+describe("loadTemplate", () => {
+  test("compiles a template with its layouts, helpers and config as watch files", () => {
+    const loaded = loadTemplate(readFileSync(greeting, "utf8"), greeting, options);
+    expect(loaded.code).toContain('import __partial_Signature from "./signature.mdt";');
+    expect(loaded.code).not.toContain("sourceMappingURL");
+    expect(loaded.map.sources).toContain(greeting);
+    expect(loaded.watchFiles).toEqual(watched);
+
+    // The helpers module named in the config is watched without the option
+    const { helpers, ...defaults } = options;
+    expect(loadTemplate(readFileSync(greeting, "utf8"), greeting, defaults).watchFiles).toEqual([
+      join(app, "prompts/base.mdt"),
+      config,
+      join(app, "helpers.js"),
+    ]);
+  });
+
+  test("applies the escape option only to templates without a policy", () => {
+    const own = "---\nexport const escape = \"json\";\n\ninterface Props { a: string }\n---\n${a}";
+    expect(loadTemplate(own, join(app, "own.mdt"), { escape: "xml" }).code).toContain('"escape":{"mode":"json"}');
+
+    const plain = loadTemplate("---\ninterface Props { a: string }\n---\n${a}", join(app, "plain.mdt"));
+    expect(plain.code).not.toContain("__escape");
+  });
+
+  test("passes whitespace options to the compiler", () => {
+    const source = readFileSync(greeting, "utf8");
+    expect(loadTemplate(source, greeting, options).code).not.toContain("__normalize(");
+    const normalized = loadTemplate(source, greeting, { ...options, normalize: true });
+    expect(normalized.code).toContain("__normalize(`");
+  });
+});
+
+describe("esbuild", () => {
+  test("bundles the fixture app", async () => {
+    const result = await build({
+      entryPoints: [join(app, "main.js")],
+      plugins: [esbuildPlugin(options)],
+      bundle: true,
+      write: false,
+      format: "esm",
+      platform: "node",
+      logLevel: "silent",
+    });
+    expect(result.errors).toEqual([]);
+    expect(await run("esbuild.mjs", result.outputFiles[0]!.text)).toBe(expected);
+  });
+});
+
+describe("rollup and vite", () => {
+  test("bundles the fixture app with rollup", async () => {
+    const bundle = await rollup({
+      input: join(app, "main.js"),
+      plugins: [rollupPlugin(options)],
+      external: (id) => id.startsWith("typemark/"),
+    });
+    const { output } = await bundle.generate({ format: "es" });
+    await bundle.close();
+
+    expect(bundle.watchFiles).toEqual(expect.arrayContaining(watched));
+    expect(await run("rollup.mjs", output[0].code)).toBe(expected);
+  });
+
+  test("loads .mdt ids, adding layouts, helpers and config as watch files", async () => {
+    const plugin = rollupPlugin(options);
+    const added: string[] = [];
+    const context = { addWatchFile: (id: string) => void added.push(id) };
+
+    const result = await plugin.load.call(context, `${greeting}?import`);
+    expect(result!.code).toContain("__renderTrace");
+    expect(result!.map.mappings).not.toBe("");
+    expect(added).toEqual(watched);
+    expect(await plugin.load.call(context, join(app, "main.js"))).toBeNull();
+  });
+
+  test("sends HMR updates for the templates using a changed layout", async () => {
+    const plugin = rollupPlugin(options);
+    await plugin.load.call({ addWatchFile: () => {} }, greeting);
+
+    const layout = { file: join(app, "prompts/base.mdt") };
+    const template = { file: greeting };
+    const server = {
+      moduleGraph: {
+        getModulesByFile: (file: string) => (file === greeting ? new Set([template]) : undefined),
+      },
+    };
+    expect(plugin.handleHotUpdate({ file: layout.file, modules: [layout], server })).toEqual([layout, template]);
+    expect(plugin.handleHotUpdate({ file: join(app, "main.js"), modules: [], server })).toBeUndefined();
+  });
+});
+
+describe("webpack", () => {
+  test("bundles the fixture app", async () => {
+    const compiler = webpack({
+      mode: "none",
+      target: "node",
+      devtool: false,
+      entry: join(app, "main.js"),
+      output: { path: out, filename: "webpack.mjs", module: true, library: { type: "module" } },
+      experiments: { outputModule: true },
+      externalsType: "module",
+      externals: [/^typemark\//],
+      module: { rules: [typemarkRule(options)] },
+    });
+    const stats = await new Promise<Stats>((resolve, reject) =>
+      compiler.run((error, stats) => (error ? reject(error) : resolve(stats!))),
+    );
+    await new Promise((resolve) => compiler.close(resolve));
+
+    expect(stats.toJson({ all: false, errors: true }).errors).toEqual([]);
+    expect([...stats.compilation.fileDependencies]).toEqual(expect.arrayContaining(watched));
+    const { text } = (await import(join(out, "webpack.mjs"))) as { text: string };
+    expect(text).toBe(expected);
+  });
+
+  function loaderContext(resourcePath: string) {
+    const calls: Parameters<LoaderContext["callback"]>[] = [];
+    const dependencies: string[] = [];
+    const context: LoaderContext = {
+      resourcePath,
+      getOptions: () => options,
+      addDependency: (file) => void dependencies.push(file),
+      callback: (...args) => void calls.push(args),
+    };
+    return { context, calls, dependencies };
+  }
+
+  test("compiles templates, adding layouts, helpers and config as dependencies", () => {
+    const { context, calls, dependencies } = loaderContext(greeting);
+    webpackLoader.call(context, readFileSync(greeting, "utf8"));
+
+    const [error, code, map] = calls[0]!;
+    expect(error).toBeNull();
+    expect(code).toContain("__escape");
+    expect(map!.sources).toContain(greeting);
+    expect(dependencies).toEqual(watched);
+  });
+
+  test("reports parse errors through the callback", () => {
+    const broken = join(app, "broken.mdt");
+    const { context, calls } = loaderContext(broken);
+    webpackLoader.call(context, "---\ninterface Props {\n---\n");
+    expect(calls[0]![0]).toBeInstanceOf(Error);
+  });
+
+  test("typemarkRule() points a rule at the loader", () => {
+    const rule = typemarkRule({ escape: "xml" });
+    expect(rule.test.test("prompt.mdt")).toBe(true);
+    expect(rule.loader).toEndWith("webpack.ts");
+    expect(rule.options).toEqual({ escape: "xml" });
+  });
+});
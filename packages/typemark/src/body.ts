@@ -0,0 +1,130 @@
+import { advance } from "./source.ts";
+import type {
+  BlockEndSegment,
+  BodySegment,
+  EachSegment,
+  ElseSegment,
+  ExpressionSegment,
+  IfSegment,
+  TextSegment,
+  WithSegment,
+} from "./types.ts";
+
+type BlockSegment = IfSegment | ElseSegment | EachSegment | WithSegment | BlockEndSegment;
+
+/**
+ * Rebuild the template literal source for a list of body segments. Layout
+ * markers don't render anything and are dropped; message markers and block
+ * directives are kept as written so a template's `raw` still shows them.
+ */
+export function bodySource(segments: BodySegment[]): string {
+  let out = "";
+  for (const [i, segment] of segments.entries()) {
+    if (segment.type === "Text") out += segment.value;
+    else if (segment.type === "Expression") out += expressionSource(segment);
+    else if (segment.type === "Message") out += `::: ${segment.role}\n`;
+    else if (segment.type === "MessageEnd") out += ":::\n";
+    else if (segment.type !== "Slot" && segment.type !== "Section") {
+      out += directiveSource(segment);
+      // A directive on its own line took its line break with it
+      const next = segments[i + 1];
+      if (next && next.range.start.line > segment.range.end.line) out += "\n";
+    }
+  }
+  return out;
+}
+
+/** An expression as written, including its whitespace control markers */
+function expressionSource(segment: ExpressionSegment): string {
+  const before = segment.trimBefore ? "-" : "";
+  const after = segment.trimAfter ? "-" : "";
+  return `\${${before}${segment.code}${after}}`;
+}
+
+/** A block directive as written */
+function directiveSource(segment: BlockSegment): string {
+  switch (segment.type) {
+    case "If":
+      return `{{#if${segment.code}}}`;
+    case "Else":
+      return segment.code === undefined ? "{{else}}" : `{{else if${segment.code}}}`;
+    case "Each":
+      return `{{#each${segment.code} as ${segment.item}${segment.index ? `, ${segment.index}` : ""}}}`;
+    case "With":
+      return `{{#with${segment.code} as ${segment.name}}}`;
+    case "BlockEnd":
+      return `{{/${segment.block}}}`;
+  }
+}
+
+/**
+ * Template literal source that renders a text segment's value verbatim.
+ * `\${` and `\{{` in the `.mdt` text stand for a literal `${` and `{{`;
+ * every other backtick, backslash and `$` is escaped so prose can't end or
+ * alter the literal.
+ */
+export function textSource(value: string): string {
+  return renderedText(value).replace(/[\\`$]/g, "\\$&");
+}
+
+/** The text a text segment renders: its value, with `\${` and `\{{` unescaped */
+export function renderedText(value: string): string {
+  return value.replace(/\\(\$\{|\{\{)/g, "$1");
+}
+
+/**
+ * Drop leading blank lines and trailing whitespace from a run of segments,
+ * so the markers around it control spacing. Text inside a block directive
+ * counts as leading or trailing when only directives and blank text come
+ * before or after it.
+ */
+export function trimSegments(segments: BodySegment[]): BodySegment[] {
+  const isEdge = (segment: BodySegment) =>
+    segment.type === "Text" ? segment.value.trim() === "" : !isContent(segment);
+
+  return segments.map((segment, i) => {
+    if (segment.type !== "Text") return segment;
+
+    let trimmed = segment;
+    if (segments.slice(0, i).every(isEdge)) trimmed = trimTextStart(trimmed, /^\s*\n/);
+    if (segments.slice(i + 1).every(isEdge)) trimmed = { ...trimmed, value: trimmed.value.trimEnd() };
+    return trimmed;
+  });
+}
+
+/** Whether a non-text segment renders something of its own */
+function isContent(segment: BodySegment): boolean {
+  return segment.type === "Expression" || segment.type === "Slot" || segment.type === "Section";
+}
+
+/**
+ * Apply `${- expr}` and `${expr -}` markers: trim all whitespace, newlines
+ * included, from the text before or after the expression.
+ */
+export function applyWhitespaceControl(segments: BodySegment[]): BodySegment[] {
+  return segments.map((segment, i) => {
+    if (segment.type !== "Text") return segment;
+
+    const previous = segments[i - 1];
+    const next = segments[i + 1];
+    let trimmed = segment;
+    if (previous?.type === "Expression" && previous.trimAfter) {
+      trimmed = trimTextStart(trimmed, /^\s+/);
+    }
+    if (next?.type === "Expression" && next.trimBefore) {
+      trimmed = { ...trimmed, value: trimmed.value.trimEnd() };
+    }
+    return trimmed;
+  });
+}
+
+/** Remove a leading match of `pattern`, moving the segment's start past it */
+function trimTextStart(segment: TextSegment, pattern: RegExp): TextSegment {
+  const removed = pattern.exec(segment.value)?.[0] ?? "";
+  if (!removed) return segment;
+  return {
+    ...segment,
+    value: segment.value.slice(removed.length),
+    range: { ...segment.range, start: advance(segment.range.start, removed) },
+  };
+}
@@ -0,0 +1,171 @@
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { generateDts } from "./codegen.ts";
+import { compileToString, type CompileOptions } from "./compiler.ts";
+import { fs } from "./lazy.ts";
+import { applyLayout, resolveLayoutChain } from "./layout.ts";
+import { resolvePartialGraph } from "./partials.ts";
+import { parse } from "./parser.ts";
+import type { ParsedTemplate } from "./types.ts";
+
+export interface BuildOptions extends Omit<CompileOptions, "filename" | "tokenizer" | "rootDir" | "sourceRoot"> {
+  /** Directory the compiled modules and declarations are written to */
+  outDir: string;
+  /**
+   * Directory whose structure is mirrored in `outDir`: `rootDir/a/b.mdt` is
+   * built to `outDir/a/b.mdt.js`. Default: the working directory.
+   */
+  rootDir?: string;
+  /** Also emit CommonJS modules, as `b.mdt.cjs` with `b.mdt.d.cts` */
+  cjs?: boolean;
+}
+
+export interface BuildResult {
+  /** Paths of the files written */
+  written: string[];
+  /** Paths of outputs removed because their template no longer exists */
+  removed: string[];
+}
+
+/** Suffixes of the files built from each template */
+const OUTPUTS = /\.mdt\.(?:js|d\.ts|cjs|d\.cts)$/;
+
+/**
+ * Precompile templates to JavaScript modules and `.d.ts` declarations in
+ * `outDir`, for runtimes and bundlers without a `.mdt` loader.
+ *
+ * Each template is built to `name.mdt.js` and `name.mdt.d.ts`, at its path
+ * relative to `rootDir`, so other code imports it as `./name.mdt.js`. The
+ * partials and layouts the templates use are built too. Relative imports
+ * are rewritten to resolve from `outDir`: imports of other templates point
+ * at their built modules, and imports of helpers, tokenizers and types at
+ * the original files. File paths in the modules' traces and source maps
+ * are relative to `rootDir`.
+ *
+ * Outputs in `outDir` whose template no longer exists under `rootDir` are
+ * removed, along with directories left empty.
+ */
+export async function buildTemplates(paths: string[], options: BuildOptions): Promise<BuildResult> {
+  const { outDir: outOption, rootDir: rootOption = ".", cjs, ...compileOptions } = options;
+  const rootDir = resolve(rootOption);
+  const outDir = resolve(outOption);
+  const { mkdir, readFile, writeFile } = await import("node:fs/promises");
+
+  // Partials are imported by the built modules, and layouts by the built
+  // declarations, so they're built as well
+  const templates = new Map<string, ParsedTemplate>();
+  const queue = paths.map((path) => resolve(path));
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (templates.has(path)) continue;
+
+    const parsed = parse(await readFile(path, "utf8"), { filePath: path });
+    templates.set(path, parsed);
+    queue.push(...resolvePartialGraph(applyLayout(parsed)).keys());
+    queue.push(...resolveLayoutChain(parsed).map((layout) => resolve(layout.filePath!)));
+  }
+
+  const written: string[] = [];
+  const emit = async (path: string, contents: string) => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, contents);
+    written.push(path);
+  };
+
+  for (const [path, parsed] of templates) {
+    const name = relative(rootDir, path);
+    if (name.startsWith("..") || isAbsolute(name)) {
+      throw new Error(`Cannot build ${relative(".", path)}: it is outside rootDir ${rootOption}`);
+    }
+
+    const base = join(outDir, name);
+    const sourceRoot = `${relative(dirname(base), rootDir).split(sep).join("/") || "."}/`;
+    const module = compileToString(parsed, { ...compileOptions, rootDir, sourceRoot });
+    const dts = generateDts(parsed);
+    await emit(`${base}.js`, rewriteImports(module, path, base, ".js", MODULE_IMPORTS));
+    await emit(`${base}.d.ts`, rewriteImports(dts, path, base, ".js", TYPE_IMPORTS));
+    if (cjs) {
+      await emit(`${base}.cjs`, toCommonJs(rewriteImports(module, path, base, ".cjs", MODULE_IMPORTS)));
+      await emit(`${base}.d.cts`, rewriteImports(dts, path, base, ".cjs", TYPE_IMPORTS));
+    }
+  }
+
+  const removed = await removeStale(outDir, rootDir);
+  return { written, removed };
+}
+
+/**
+ * Relative specifiers in import statements. Only statements at the start of
+ * a line are matched: a module's body text may contain import-like text.
+ */
+const MODULE_IMPORTS = /^(import\b.*?\bfrom\s*)(["'])(\.{1,2}\/[^"'\n]*)\2/gm;
+
+/** Relative specifiers in a declaration's import statements and `import()` types */
+const TYPE_IMPORTS = /(^import\b.*?\bfrom\s*|\bimport\(\s*)(["'])(\.{1,2}\/[^"'\n]*)\2/gm;
+
+/**
+ * Point the relative imports `pattern` finds in `code`, written for the
+ * template at `source`, at the right files from `out`. Imports of templates
+ * get the built module's `extension`.
+ */
+function rewriteImports(code: string, source: string, out: string, extension: string, pattern: RegExp): string {
+  const rewrite = (specifier: string): string => {
+    if (!specifier.startsWith("./") && !specifier.startsWith("../")) return specifier;
+    if (specifier.endsWith(".mdt")) return specifier + extension;
+
+    const path = relative(dirname(out), resolve(dirname(source), specifier)).split(sep).join("/");
+    return path.startsWith(".") ? path : `./${path}`;
+  };
+
+  return code.replace(
+    pattern,
+    (_, before: string, quote: string, specifier: string) => `${before}${quote}${rewrite(specifier)}${quote}`,
+  );
+}
+
+/**
+ * Convert a module from `compileToString()` to CommonJS. Each import and
+ * the default export stays on its line, so the source map still lines up.
+ */
+function toCommonJs(code: string): string {
+  return code
+    .replace(
+      /^import \{ (.*) \} from (".*");$/gm,
+      (_, names: string, specifier: string) => `const { ${names.replace(/ as /g, ": ")} } = require(${specifier});`,
+    )
+    .replace(/^import (\w+) from (".*");$/gm, "const $1 = require($2).default;")
+    .replace(
+      /^export default /m,
+      'Object.defineProperty(exports, "__esModule", { value: true }); exports.default = ',
+    );
+}
+
+/** Remove outputs in `outDir` whose template is gone from `rootDir` */
+async function removeStale(outDir: string, rootDir: string): Promise<string[]> {
+  const { existsSync } = fs();
+  const { readdir, rm, rmdir } = await import("node:fs/promises");
+  if (!existsSync(outDir)) return [];
+
+  const removed: string[] = [];
+  const directories = new Set<string>();
+  for (const entry of await readdir(outDir, { recursive: true })) {
+    const path = join(outDir, entry);
+    if (!OUTPUTS.test(entry)) continue;
+    const template = join(rootDir, entry.replace(OUTPUTS, ".mdt"));
+    if (existsSync(template)) continue;
+
+    await rm(path);
+    removed.push(path);
+    directories.add(dirname(path));
+  }
+
+  // Deepest first, so a directory holding only empty ones is removed too
+  const candidates = [...directories].flatMap((directory) => {
+    const parents: string[] = [];
+    for (let d = directory; d !== outDir && d.startsWith(outDir + sep); d = dirname(d)) parents.push(d);
+    return parents;
+  });
+  for (const directory of [...new Set(candidates)].sort((a, b) => b.length - a.length)) {
+    if ((await readdir(directory)).length === 0) await rmdir(directory);
+  }
+  return removed;
+}
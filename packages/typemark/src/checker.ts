@@ -0,0 +1,303 @@
+import type ts from "typescript";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { generateDts, layoutImport, partialDeclarations } from "./codegen.ts";
+import { bodyHelpers } from "./config.ts";
+import { destructuring } from "./emit.ts";
+import { applyLayout, layoutPath, resolveLayoutChain } from "./layout.ts";
+import { typescript } from "./lazy.ts";
+import { resolvePartialGraph } from "./partials.ts";
+import { createVirtualProgram } from "./program.ts";
+import { LineIndex } from "./source.ts";
+import type {
+  BodySegment,
+  ConstDeclaration,
+  ParsedTemplate,
+  SourceRange,
+  TemplateDiagnostic,
+} from "./types.ts";
+
+/**
+ * The path of this package's module `name` for the checker to read its types
+ * from: the source next to this file, or the declarations next to the
+ * compiled `dist/` build
+ */
+function ownTypes(name: string): string {
+  const extension = import.meta.url.endsWith(".ts") ? ".ts" : ".d.ts";
+  return fileURLToPath(new URL(`./${name}${extension}`, import.meta.url));
+}
+
+function compilerOptions(): ts.CompilerOptions {
+  const ts = typescript();
+  return {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowImportingTsExtensions: true,
+    skipLibCheck: true,
+    types: [],
+    // Generated partial declarations reference `import("typemark").Template`,
+    // and helpers are imported from `typemark/helpers`
+    paths: {
+      typemark: [ownTypes("types")],
+      "typemark/helpers": [ownTypes("helpers")],
+    },
+  };
+}
+
+export interface CheckOptions {
+  /**
+   * Path of the `.mdt` file. Relative `import type` statements in the
+   * frontmatter are resolved from its directory. Defaults to the path
+   * given to `parse()`.
+   */
+  filePath?: string;
+}
+
+/**
+ * Type-check a parsed template's body expressions against its Props.
+ *
+ * Builds a virtual TypeScript module from the frontmatter (imports, helper
+ * types and Props, verbatim) followed by a render function that destructures
+ * Props and returns the body as a template literal. Partials are typed from
+ * their own Props, so calls with the wrong arguments are reported, and
+ * helpers are imported from their modules. Diagnostics are mapped
+ * back to 1-based line/column positions in the `.mdt` source.
+ */
+export function checkTemplate(
+  parsed: ParsedTemplate,
+  options: CheckOptions = {},
+): TemplateDiagnostic[] {
+  const ts = typescript();
+  const filePath = options.filePath ?? parsed.filePath;
+  const virtualPath = filePath
+    ? `${resolve(filePath)}.ts`
+    : resolve("__typemark_check__.mdt.ts");
+
+  // A child's body may use its layouts' props too
+  const layouts = parsed.layout ? resolveLayoutChain(parsed) : [];
+  const pattern = destructuring(parsed.layout ? applyLayout(parsed) : parsed);
+  const propsType = parsed.layout ? "Props & __LayoutProps" : "Props";
+
+  const destructure = pattern ? `  const ${pattern} = props;\n` : "";
+
+  // Partial imports are blanked out (keeping offsets intact) and replaced by
+  // typed function declarations after the frontmatter.
+  let frontmatter = parsed.frontmatter;
+  for (const partial of parsed.partials) {
+    const start = partial.range.start.offset - parsed.frontmatterStart;
+    const end = partial.range.end.offset - parsed.frontmatterStart;
+    const blank = frontmatter.slice(start, end).replace(/[^\n]/g, " ");
+    frontmatter = frontmatter.slice(0, start) + blank + frontmatter.slice(end);
+  }
+  const helpers = bodyHelpers(parsed);
+  const declarations = [
+    ...(parsed.layout ? [layoutImport(parsed)] : []),
+    ...partialDeclarations(parsed),
+    ...(helpers.builtins.length > 0
+      ? [`import { ${helpers.builtins.join(", ")} } from "typemark/helpers";`]
+      : []),
+    ...(helpers.project
+      ? [`import { ${helpers.project.names.join(", ")} } from ${JSON.stringify(helpers.project.path)};`]
+      : []),
+  ];
+
+  let prefix = `${frontmatter}\n\n` + declarations.map((line) => `${line}\n`).join("");
+
+  // Defaults are checked against Props as a fresh object literal, so
+  // misspelled keys are reported too
+  const defaults = parsed.ast.frontmatter.declarations.find(
+    (d): d is ConstDeclaration => d.type === "ConstDeclaration" && d.name === "defaults",
+  );
+  let defaultsStart = -1;
+  if (defaults) {
+    prefix += `const __defaults: Partial<${propsType}> = `;
+    defaultsStart = prefix.length;
+    prefix += `${defaults.initializer};\n`;
+  }
+
+  prefix +=
+    `export default function __typemark_render(props: ${propsType}): string {\n` +
+    destructure +
+    "  return `";
+  const body = checkedBody(parsed);
+  const code = `${prefix}${body.code}\`;\n}\n`;
+
+  const bodyStart = prefix.length;
+  const bodyEnd = bodyStart + body.code.length;
+
+  // Serve each partial's declarations from memory so checking doesn't depend
+  // on `typemark generate` having run
+  const files = new Map([[virtualPath, code]]);
+  const chain = [parsed, ...layouts];
+  for (const [i, template] of chain.entries()) {
+    if (template.layout) {
+      files.set(`${layoutPath(template)}.d.ts`, generateDts(chain[i + 1]!));
+    }
+    for (const [path, dependency] of resolvePartialGraph(template)) {
+      files.set(`${path}.d.ts`, generateDts(dependency));
+    }
+  }
+
+  const program = createVirtualProgram(
+    files,
+    compilerOptions(),
+    dirname(virtualPath),
+  );
+  const sourceFile = program.getSourceFile(virtualPath)!;
+
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ];
+
+  const lines = new LineIndex(parsed.source);
+
+  return diagnostics.map((diagnostic) => {
+    const start = diagnostic.start ?? 0;
+
+    // Map the virtual position back onto the .mdt source. Anything that falls
+    // in the generated glue between frontmatter and body is reported at the
+    // start of the body.
+    let offset: number;
+    if (start < parsed.frontmatter.length) {
+      offset = parsed.frontmatterStart + start;
+    } else if (start >= bodyStart && start <= bodyEnd) {
+      offset = body.sourceOffset(start - bodyStart);
+    } else if (defaults && start >= defaultsStart && start < defaultsStart + defaults.initializer.length) {
+      offset = defaults.initializerRange.start.offset + (start - defaultsStart);
+    } else {
+      offset = parsed.bodyStart;
+    }
+
+    const { line, column } = lines.position(offset);
+
+    return {
+      filePath,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+      code: diagnostic.code,
+      category: categoryName(diagnostic.category),
+      line,
+      column,
+      length: diagnostic.length ?? 0,
+    };
+  });
+}
+
+function categoryName(category: ts.DiagnosticCategory): TemplateDiagnostic["category"] {
+  const ts = typescript();
+  switch (category) {
+    case ts.DiagnosticCategory.Error:
+      return "error";
+    case ts.DiagnosticCategory.Warning:
+      return "warning";
+    case ts.DiagnosticCategory.Suggestion:
+      return "suggestion";
+    default:
+      return "message";
+  }
+}
+
+/** The body as checked code, and the way back to the `.mdt` source */
+interface CheckedBody {
+  code: string;
+  /** The source offset of an offset in `code` */
+  sourceOffset(offset: number): number;
+}
+
+/**
+ * The body as template literal source for type-checking: expressions are
+ * kept verbatim and everything else is blanked, so backticks in prose can't
+ * end the literal. Block directives become the same nested literals the
+ * compiler emits, so `{{#each}}` variables are typed from their iterable.
+ *
+ * Each piece of code is anchored to the source offset it came from;
+ * generated glue is anchored to its directive.
+ */
+function checkedBody(parsed: ParsedTemplate): CheckedBody {
+  const { source, bodyStart } = parsed;
+  const bodyEnd = bodyStart + parsed.body.length;
+  const anchors: { offset: number; source: number }[] = [];
+  const blocks: { segment: BodySegment; hasElse: boolean }[] = [];
+  let out = "";
+
+  const write = (text: string, from: number) => {
+    anchors.push({ offset: out.length, source: from });
+    out += text;
+  };
+  const copy = (range: SourceRange) =>
+    write(source.slice(range.start.offset, range.end.offset), range.start.offset);
+  const blank = (from: number, to: number) =>
+    write(source.slice(from, to).replace(/[^\n]/g, " "), from);
+
+  let pos = bodyStart;
+  for (const segment of parsed.ast.body.segments) {
+    if (segment.type === "Text" || segment.type === "Slot" || segment.type === "Section") continue;
+    if (segment.type === "Message" || segment.type === "MessageEnd") continue;
+
+    const at = segment.range.start.offset;
+    blank(pos, at);
+    pos = segment.range.end.offset;
+
+    switch (segment.type) {
+      case "Expression":
+        // Whitespace control markers are blanked, as they aren't part of the code
+        write("${", at);
+        blank(at + 2, segment.codeRange.start.offset);
+        copy(segment.codeRange);
+        blank(segment.codeRange.end.offset, pos - 1);
+        write("}", pos - 1);
+        break;
+      case "If":
+        blocks.push({ segment, hasElse: false });
+        write("${(", at);
+        copy(segment.codeRange);
+        write(") ? `", at);
+        break;
+      case "Else":
+        if (segment.codeRange) {
+          write("` : (", at);
+          copy(segment.codeRange);
+          write(") ? `", at);
+        } else {
+          blocks[blocks.length - 1]!.hasElse = true;
+          write("` : `", at);
+        }
+        break;
+      case "Each":
+        blocks.push({ segment, hasElse: false });
+        write("${Array.from(", at);
+        copy(segment.codeRange);
+        write(`, (${segment.index ? `${segment.item}, ${segment.index}` : segment.item}) => \``, at);
+        break;
+      case "With":
+        blocks.push({ segment, hasElse: false });
+        write(`\${((${segment.name}) => \``, at);
+        break;
+      case "BlockEnd": {
+        const block = blocks.pop()!;
+        if (block.segment.type === "If") {
+          write(block.hasElse ? "`}" : '` : ""}', at);
+        } else if (block.segment.type === "Each") {
+          write('`).join("")}', at);
+        } else if (block.segment.type === "With") {
+          write("`)(", at);
+          copy(block.segment.codeRange);
+          write(")}", at);
+        }
+        break;
+      }
+    }
+  }
+  blank(pos, bodyEnd);
+
+  return {
+    code: out,
+    sourceOffset(offset) {
+      const anchor = anchors.findLast((a) => a.offset <= offset) ?? { offset: 0, source: bodyStart };
+      return anchor.source + (offset - anchor.offset);
+    },
+  };
+}
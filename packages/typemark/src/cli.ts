@@ -1,19 +1,47 @@
-#!/usr/bin/env bun
+#!/usr/bin/env node
 
 import { watch } from "node:fs";
-import { resolve } from "node:path";
+import { glob, readFile, writeFile } from "node:fs/promises";
+import { relative, resolve, sep } from "node:path";
+import { parseArgs } from "node:util";
+import { buildTemplates } from "./build.ts";
+import { checkTemplate } from "./checker.ts";
 import { generateDtsForFile } from "./codegen.ts";
+import { tokenizerPath } from "./config.ts";
+import { TypemarkParseError } from "./errors.ts";
+import { applyLayout, layoutPath } from "./layout.ts";
+import { parse } from "./parser.ts";
+import { generateJsonSchema } from "./schema.ts";
+import { approximateTokenizer, type Tokenizer } from "./tokens.ts";
 
-const [command, globArg] = Bun.argv.slice(2);
+const { values: flags, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    outDir: { type: "string" },
+    rootDir: { type: "string" },
+    cjs: { type: "boolean" },
+    normalize: { type: "boolean" },
+  },
+  allowPositionals: true,
+});
+const [command, globArg] = positionals;
 const pattern = globArg ?? "**/*.mdt";
 
+/** Absolute paths of the files matching the glob */
+async function templatePaths(): Promise<string[]> {
+  const paths: string[] = [];
+  for await (const entry of glob(pattern, { withFileTypes: true })) {
+    if (entry.isFile()) paths.push(resolve(entry.parentPath, entry.name));
+  }
+  return paths;
+}
+
 async function generate(): Promise<number> {
-  const glob = new Bun.Glob(pattern);
   let count = 0;
 
-  for await (const path of glob.scan({ absolute: true })) {
+  for (const path of await templatePaths()) {
     const dtsContent = await generateDtsForFile(path);
-    await Bun.write(`${path}.d.ts`, dtsContent);
+    await writeFile(`${path}.d.ts`, dtsContent);
     count++;
   }
 
@@ -21,6 +49,136 @@ async function generate(): Promise<number> {
   return count;
 }
 
+async function check(): Promise<number> {
+  let files = 0;
+  let errors = 0;
+
+  for (const path of await templatePaths()) {
+    const source = await readFile(path, "utf8");
+    const diagnostics = checkTemplate(parse(source, { filePath: path }));
+
+    for (const d of diagnostics) {
+      console.error(
+        `${relative(".", path)}:${d.line}:${d.column} - ${d.category} TS${d.code}: ${d.message}`,
+      );
+      if (d.category === "error") errors++;
+    }
+    files++;
+  }
+
+  console.log(
+    `typemark: checked ${files} .mdt file${files === 1 ? "" : "s"}, found ${errors} error${errors === 1 ? "" : "s"}`,
+  );
+  return errors;
+}
+
+async function schema(): Promise<number> {
+  let count = 0;
+
+  for (const path of await templatePaths()) {
+    const source = await readFile(path, "utf8");
+    const jsonSchema = generateJsonSchema(parse(source, { filePath: path }));
+    await writeFile(`${path}.schema.json`, JSON.stringify(jsonSchema, null, 2) + "\n");
+    count++;
+  }
+
+  console.log(`typemark: generated ${count} JSON schema${count === 1 ? "" : "s"}`);
+  return count;
+}
+
+async function build(outDir: string): Promise<number> {
+  // Earlier outputs aren't templates, but a glob could match their directory
+  const paths = (await templatePaths()).filter((path) => !path.startsWith(outDir + sep));
+
+  const { written, removed } = await buildTemplates(paths, {
+    outDir,
+    rootDir: flags.rootDir,
+    cjs: flags.cjs,
+    normalize: flags.normalize,
+  });
+  // Partials and layouts the matched templates use are built too
+  const built = written.filter((path) => path.endsWith(".mdt.js")).length;
+  const stale = removed.length > 0 ? `, removed ${removed.length} stale file${removed.length === 1 ? "" : "s"}` : "";
+  console.log(`typemark: built ${built} template${built === 1 ? "" : "s"} to ${relative(".", outDir)}${stale}`);
+  return built;
+}
+
+/**
+ * Report the tokens in each template's static text: the body and its
+ * layouts' text, without expressions or partials. Counts made with the
+ * default tokenizer are marked as approximate. Returns the number of
+ * templates whose static text alone is over their `maxTokens` budget.
+ */
+async function stats(): Promise<number> {
+  const tokenizers = new Map<string, Tokenizer>();
+  const rows: { path: string; tokens: number; maxTokens?: number }[] = [];
+  let approximate = false;
+
+  for (const path of await templatePaths()) {
+    const template = applyLayout(parse(await readFile(path, "utf8"), { filePath: path }));
+
+    const modulePath = tokenizerPath(template);
+    let tokenizer = modulePath ? tokenizers.get(modulePath) : approximateTokenizer;
+    if (!modulePath) approximate = true;
+    if (!tokenizer) {
+      tokenizer = ((await import(modulePath!)) as { default: Tokenizer }).default;
+      tokenizers.set(modulePath!, tokenizer);
+    }
+
+    const text = template.ast.body.segments
+      .map((segment) => (segment.type === "Text" ? segment.value : ""))
+      .join("");
+    rows.push({ path: relative(".", path), tokens: tokenizer.count(text), maxTokens: template.maxTokens });
+  }
+
+  rows.sort((a, b) => b.tokens - a.tokens);
+  const width = Math.max(0, ...rows.map((row) => String(row.tokens).length));
+  let overBudget = 0;
+  for (const { path, tokens, maxTokens } of rows) {
+    const over = maxTokens !== undefined && tokens > maxTokens;
+    if (over) overBudget++;
+    const budget = maxTokens === undefined ? "" : `  (maxTokens ${maxTokens}${over ? ", over budget" : ""})`;
+    (over ? console.error : console.log)(`${String(tokens).padStart(width)}  ${path}${budget}`);
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.tokens, 0);
+  console.log(
+    `typemark: ${rows.length} template${rows.length === 1 ? "" : "s"}, ${total} static token${total === 1 ? "" : "s"}${approximate ? " (approximate)" : ""}`,
+  );
+  return overBudget;
+}
+
+/**
+ * Find every template matched by the glob that uses `layout`, directly or
+ * through another layout.
+ */
+async function layoutDependents(layout: string): Promise<string[]> {
+  const layouts = new Map<string, string>();
+
+  for (const path of await templatePaths()) {
+    try {
+      const parsed = parse(await readFile(path, "utf8"), { filePath: path });
+      if (parsed.layout) layouts.set(path, layoutPath(parsed));
+    } catch {
+      // Broken templates are reported when they are regenerated themselves
+    }
+  }
+
+  const dependents: string[] = [];
+  const queue = [layout];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [child, parent] of layouts) {
+      if (parent === current && !dependents.includes(child) && child !== layout) {
+        dependents.push(child);
+        queue.push(child);
+      }
+    }
+  }
+
+  return dependents;
+}
+
 async function main() {
   switch (command) {
     case "generate": {
@@ -28,6 +186,32 @@ async function main() {
       break;
     }
 
+    case "check": {
+      const errors = await check();
+      if (errors > 0) process.exit(1);
+      break;
+    }
+
+    case "schema": {
+      await schema();
+      break;
+    }
+
+    case "build": {
+      if (!flags.outDir) {
+        console.error("typemark build: --outDir is required");
+        process.exit(1);
+      }
+      await build(resolve(flags.outDir));
+      break;
+    }
+
+    case "stats": {
+      const overBudget = await stats();
+      if (overBudget > 0) process.exit(1);
+      break;
+    }
+
     case "watch": {
       await generate();
       console.log(`typemark: watching for changes (${pattern})`);
@@ -38,12 +222,17 @@ async function main() {
         if (!filename || !filename.endsWith(".mdt")) return;
 
         const fullPath = resolve(dir, filename);
-        try {
-          const dtsContent = await generateDtsForFile(fullPath);
-          await Bun.write(`${fullPath}.d.ts`, dtsContent);
-          console.log(`typemark: updated ${filename}.d.ts`);
-        } catch (err) {
-          console.error(`typemark: error processing ${filename}:`, err);
+
+        // Children rendered into a changed layout are regenerated with it
+        for (const path of [fullPath, ...(await layoutDependents(fullPath))]) {
+          const name = relative(dir, path);
+          try {
+            const dtsContent = await generateDtsForFile(path);
+            await writeFile(`${path}.d.ts`, dtsContent);
+            console.log(`typemark: updated ${name}.d.ts`);
+          } catch (err) {
+            console.error(`typemark: error processing ${name}:`, formatError(err));
+          }
         }
       });
       break;
@@ -53,6 +242,17 @@ async function main() {
       console.log(`Usage:
   typemark generate [glob]    Generate .d.ts files for .mdt files
   typemark watch [glob]       Watch .mdt files and regenerate .d.ts on change
+                              (including templates that use a changed layout)
+  typemark check [glob]       Type-check template bodies against their Props
+  typemark schema [glob]      Write a JSON Schema of each template's Props
+                              to prompt.mdt.schema.json
+  typemark stats [glob]       Report the tokens in each template's static text
+  typemark build --outDir <dir> [glob]
+                              Compile templates to .mdt.js modules and
+                              .mdt.d.ts declarations in <dir>
+      --rootDir <dir>         Directory mirrored in outDir (default: .)
+      --cjs                   Also emit .mdt.cjs and .mdt.d.cts
+      --normalize             Collapse blank lines and strip trailing spaces
 
 Default glob: **/*.mdt`);
       process.exit(command ? 1 : 0);
@@ -60,7 +260,12 @@ Default glob: **/*.mdt`);
   }
 }
 
+/** Parse errors already carry a location and code frame; print them bare */
+function formatError(err: unknown): unknown {
+  return err instanceof TypemarkParseError ? err.message : err;
+}
+
 main().catch((err) => {
-  console.error(err);
+  console.error(formatError(err));
   process.exit(1);
 });
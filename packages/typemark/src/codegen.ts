@@ -1,11 +1,22 @@
-import type { ParsedTemplate } from "./types.ts";
+import type { LiteralValue, ParsedTemplate } from "./types.ts";
+import { applyLayout, resolveLayoutChain } from "./layout.ts";
+import { messageRoles } from "./messages.ts";
+import { resolvePartialGraph } from "./partials.ts";
 import { parse } from "./parser.ts";
 
 /**
  * Generate a `.d.ts` declaration file from a parsed .mdt template.
  *
  * If the template has imports, they are emitted at the top of the file.
- * The Props body is inlined into a `Template<{ ... }>` type parameter.
+ * The Props body is inlined into a `Template<{ ... }>` type parameter,
+ * intersected with the layout's Props if there is one, and re-exported as
+ * `Props` so other templates can import it. Templates with `::: role`
+ * message blocks are typed as a `ChatTemplate` over the roles they use.
+ * Metadata from `export const meta` is typed with its literal values, and
+ * keys with a default in `export const defaults` are optional to callers.
+ * Templates with `@priority` props are `Truncatable`, with `renderWithin`.
+ * A template declaring `interface Output` is a `Template<Props, Output>`,
+ * `Structured` so `parseOutput` returns it, and exports the type.
  */
 export function generateDts(parsed: ParsedTemplate): string {
   const lines: string[] = [];
@@ -19,16 +30,45 @@ export function generateDts(parsed: ParsedTemplate): string {
     lines.push("");
   }
 
-  // Emit helper type declarations (non-Props interfaces/types)
+  // A layout's Props are merged in by reference to its own `.d.ts`
+  const chain = parsed.layout && parsed.filePath ? resolveLayoutChain(parsed) : [];
+  if (parsed.layout) {
+    lines.push(layoutImport(parsed), "");
+  }
+
+  // Type each partial as a function of its own Props. Walking the graph
+  // up front reports missing partials and cycles.
+  if (parsed.filePath) resolvePartialGraph(parsed);
+  const partials = partialDeclarations(parsed);
+  if (partials.length > 0) {
+    lines.push(...partials, "");
+  }
+
+  // Emit helper type declarations (non-Props interfaces/types/enums)
   for (const decl of parsed.preamble) {
-    lines.push(decl);
+    lines.push(ambient(decl));
   }
 
   if (parsed.preamble.length > 0) {
     lines.push("");
   }
 
-  lines.push(`declare const template: import("typemark").Template<{`);
+  // Types Props extends or is intersected with come first, e.g. `Base & {`
+  const bases = [...(parsed.layout ? [LAYOUT_PROPS] : []), ...parsed.propsExtends]
+    .map((type) => `${type} & `)
+    .join("");
+  const roles = messageRoles([parsed, ...chain]);
+  const templateType = roles.length > 0 ? "ChatTemplate" : "Template";
+
+  // Metadata and defaults are merged over the layouts', as when compiling
+  const { meta, defaults, truncation } = chain.length > 0 ? applyLayout(parsed) : parsed;
+  const defaulted = Object.keys(defaults ?? {});
+  const withDefaults = defaulted.length > 0 ? 'import("typemark").WithDefaults<' : "";
+  const truncatable = truncation ? 'import("typemark").Truncatable<' : "";
+  const structured = parsed.output ? 'import("typemark").Structured<' : "";
+  lines.push(
+    `declare const template: ${structured}${truncatable}import("typemark").${templateType}<${withDefaults}${bases}{`,
+  );
 
   // Indent the props body to sit inside the generic parameter.
   // The first line needs 4 spaces of indentation added; subsequent lines
@@ -42,18 +82,77 @@ export function generateDts(parsed: ParsedTemplate): string {
     }
   }
 
-  lines.push("}>;");
+  let close = "}";
+  if (defaulted.length > 0) close += `, ${defaulted.map((key) => JSON.stringify(key)).join(" | ")}>`;
+  if (roles.length > 0) close += `, ${roles.map((r) => JSON.stringify(r)).join(" | ")}`;
+  if (parsed.output) close += ", Output";
+  close += ">";
+  if (truncation) close += ">";
+  if (parsed.output) close += ">";
+  lines.push(meta ? `${close} & {\n    readonly meta: ${metaType(meta, "    ")};\n};` : `${close};`);
+  lines.push('export type Props = import("typemark").PropsOf<typeof template>;');
+  if (parsed.output) lines.push("export type { Output };");
   lines.push("export default template;");
   lines.push("");
 
   return lines.join("\n");
 }
 
+const LAYOUT_PROPS = "__LayoutProps";
+
+/** Import of the layout's Props, which the child's Props are merged with */
+export function layoutImport(parsed: ParsedTemplate): string {
+  return `import type { Props as ${LAYOUT_PROPS} } from ${JSON.stringify(parsed.layout!.specifier)};`;
+}
+
+/**
+ * Declarations that type each partial as `(props: Props) => string`, using
+ * the `Props` exported by the partial's own `.d.ts`.
+ */
+export function partialDeclarations(parsed: ParsedTemplate): string[] {
+  return parsed.partials.flatMap((partial) => {
+    const propsType = `__${partial.name}Props`;
+    return [
+      `import type { Props as ${propsType} } from ${JSON.stringify(partial.specifier)};`,
+      `declare const ${partial.name}: (props: ${propsType}) => string;`,
+    ];
+  });
+}
+
+/**
+ * The literal type of a metadata value, as `as const` would infer it:
+ * readonly objects and tuples of literal types.
+ */
+function metaType(value: LiteralValue, indent: string): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    return `readonly [${value.map((element) => metaType(element, indent)).join(", ")}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  const inner = `${indent}    `;
+  const members = entries.map(([key, member]) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+    return `${inner}readonly ${name}: ${metaType(member, inner)};\n`;
+  });
+  return `{\n${members.join("")}${indent}}`;
+}
+
+/**
+ * Top-level enums in a `.d.ts` must be `declare`d; interfaces and type
+ * aliases are ambient already.
+ */
+function ambient(decl: string): string {
+  return decl.replace(/^((?:\/\*[\s\S]*?\*\/\s*)?)((?:const\s+)?enum\b)/, "$1declare $2");
+}
+
 /**
  * Read a `.mdt` file, parse it, and return the generated `.d.ts` content.
  */
 export async function generateDtsForFile(filePath: string): Promise<string> {
-  const source = await Bun.file(filePath).text();
-  const parsed = parse(source);
+  const { readFile } = await import("node:fs/promises");
+  const source = await readFile(filePath, "utf8");
+  const parsed = parse(source, { filePath });
   return generateDts(parsed);
 }
@@ -1,51 +1,493 @@
-import type { ParsedTemplate, Template } from "./types.ts";
+import { dirname, relative, resolve, sep } from "node:path";
+import { bodyHelpers, referencedHelpers, tokenizerPath } from "./config.ts";
+import { renderFunctions } from "./emit.ts";
+import { TemplateRenderError } from "./errors.ts";
+import { applyLayout } from "./layout.ts";
+import { interpretRenderFunctions, type RenderFunctions } from "./interpret.ts";
+import { nodeRequire } from "./lazy.ts";
+import { partialPath, resolvePartialGraph } from "./partials.ts";
+import {
+  assertValidProps,
+  checkBudget,
+  parseOutput,
+  redact,
+  renderSupport,
+  renderWithin,
+  validateProps,
+} from "./runtime.ts";
+import { generateOutputSchema } from "./schema.ts";
+import { outputShape, propsShape } from "./shape.ts";
+import * as builtinHelpers from "./helpers.ts";
+import { createSourceMap, inlineSourceMapComment } from "./sourcemap.ts";
+import { redactedExpressions } from "./redact.ts";
+import { approximateTokenizer, type Tokenizer } from "./tokens.ts";
+import type { ExpressionSegment, ParsedTemplate, PropsShape, RedactedRender, Template } from "./types.ts";
+import type { NormalizeOptions } from "./normalize.ts";
+
+type RenderFn = (props: Record<string, unknown>) => string;
+
+/**
+ * A template before {@link withRedaction} turns `renderBoth`, the render
+ * and its redacted copy, into the redacted renders
+ */
+type Compiled = Omit<Template, "render" | "renderRedacted"> & {
+  render: RenderFn;
+  renderBoth: (props: Record<string, unknown>) => RedactedRender;
+};
+
+export interface CompileOptions {
+  /** Add a `validate(props)` method that checks props against the Props type */
+  validate?: boolean;
+  /**
+   * Validate props before every render and throw a `TemplatePropsError`
+   * naming the offending path. Implies `validate`.
+   */
+  strict?: boolean;
+  /**
+   * Name of the template in render errors; defaults to `parsed.filePath`.
+   * Only used by `compile()`.
+   */
+  filename?: string;
+  /**
+   * Directory the file paths `compileToString()` writes into the module, in
+   * its traces, budget errors and source map, are relative to, so that the
+   * module doesn't depend on where it was compiled. By default traces and
+   * the source map hold absolute paths.
+   */
+  rootDir?: string;
+  /**
+   * The source map's `sourceRoot`: where its `sources`, relative to
+   * `rootDir`, are found from the module. Only used with `rootDir`.
+   */
+  sourceRoot?: string;
+  /**
+   * Clean up rendered text: collapse runs of blank lines and strip trailing
+   * spaces. Off by default, so the body renders exactly as written; `true`
+   * turns both on.
+   */
+  normalize?: NormalizeOptions | boolean;
+  /**
+   * Counts tokens for `countTokens()` and the `maxTokens` budget. Defaults to
+   * the tokenizer named in `typemark.config.json`, or an approximate one; in
+   * interpret mode, to the approximate one. Only used by `compile()`.
+   */
+  tokenizer?: Tokenizer;
+  /**
+   * Throw a `TemplateBudgetError` from `render()` and `renderMessages()`
+   * when the output has more tokens than the template's `maxTokens`.
+   * Default: true.
+   */
+  enforceBudget?: boolean;
+  /**
+   * Path of a module whose named exports are helpers, used instead of the
+   * one named in `typemark.config.json`. Relative paths are resolved from
+   * the working directory. `compile()` also takes the helpers themselves,
+   * which is the only way to give them in interpret mode.
+   */
+  helpers?: string | Record<string, unknown>;
+  /**
+   * How `compile()` evaluates the body. `"function"`, the default, compiles
+   * it to JavaScript with `new Function()`. `"interpret"` walks the
+   * expressions' syntax trees instead, for runtimes whose content security
+   * policy forbids `new Function()`, such as browser extensions and edge
+   * functions; expressions are limited to a subset of JavaScript without
+   * side effects (see `interpret.ts`). As such runtimes may have no file
+   * system or `require()`, interpret mode doesn't read `typemark.config.json`:
+   * project helpers and the tokenizer come from `helpers` and `tokenizer`.
+   */
+  mode?: "function" | "interpret";
+}
 
 /**
  * Compile a parsed template into a Template object with a render function.
  * Uses `new Function()` to create a function that evaluates the template body
- * as a JavaScript template literal.
+ * as a JavaScript template literal, or with `mode: "interpret"`, interprets
+ * the body without generating code. An expression interpret mode doesn't
+ * support throws a {@link TypemarkParseError} here.
+ *
+ * Layouts and partials declared in the frontmatter are read from disk
+ * relative to the template's `filePath`. The child is merged into its layout
+ * and partials are compiled and exposed to the body as functions.
+ *
+ * The body can call the built-in helpers (see `helpers.ts`) and the project
+ * helpers named in `typemark.config.json`, which is loaded here, or given
+ * as the `helpers` option.
+ *
+ * With an `escape` policy in the frontmatter, every `${}` value is escaped
+ * unless it's wrapped in `raw()` or is a partial's output.
+ *
+ * With `validate` or `strict`, a validator is derived from the Props type
+ * (see {@link propsShape}); partials are compiled with the same options.
+ *
+ * A template declaring `maxTokens` throws a {@link TemplateBudgetError} when
+ * a render goes over budget, unless `enforceBudget` is false. Templates with
+ * props annotated with `@priority` get a `renderWithin()` method.
+ * `renderRedacted()` hides the values of props annotated with `@redact`,
+ * and `renderWithTrace()` reports where each span of output came from.
+ * A template declaring `interface Output` gets its JSON Schema as
+ * `outputSchema` and a `parseOutput()` that reads model responses.
+ *
+ * An exception thrown by a `${}` expression is wrapped in a
+ * {@link TemplateRenderError} naming the template, the expression and its
+ * line and column.
  */
-export function compile(parsed: ParsedTemplate): Template {
-  const { propKeys, body } = parsed;
+export function compile(parsed: ParsedTemplate, options: CompileOptions = {}): Template {
+  const template = applyLayout(parsed);
+  const compiled = new Map<string, Compiled>();
+
+  // Dependencies come first, so every partial is compiled before its importers
+  for (const [path, dependency] of resolvePartialGraph(template)) {
+    const partial = compileTemplate(applyLayout(dependency), compiled, path, options);
+    compiled.set(path, withValidation(partial, dependency, options));
+  }
 
-  const destructure =
-    propKeys.length > 0 ? `const { ${propKeys.join(", ")} } = props; ` : "";
+  const filename = options.filename ?? parsed.filePath;
+  const compiledTemplate = compileTemplate(template, compiled, filename, options);
+  return withOutput(withRedaction(withValidation(compiledTemplate, parsed, options)), parsed);
+}
+
+function withValidation(template: Compiled, parsed: ParsedTemplate, options: CompileOptions): Compiled {
+  if (!options.validate && !options.strict) return template;
 
-  const fnBody = `${destructure}return \`${body}\`;`;
-  const renderFn = new Function("props", fnBody) as (
-    props: Record<string, unknown>,
-  ) => string;
+  const shape = propsShape(parsed);
+  const validate = (props: unknown) => validateProps<Record<string, unknown>>(shape, props);
+  if (!options.strict) return { ...template, validate };
 
+  const { renderWithin } = template;
   return {
-    render: renderFn,
-    raw: body,
+    ...template,
+    render: (props) => template.render(assertValidProps(shape, props)),
+    renderBoth: (props) => template.renderBoth(assertValidProps(shape, props)),
+    renderMessages: (props) => template.renderMessages(assertValidProps(shape, props)),
+    renderWithTrace: (props) => template.renderWithTrace(assertValidProps(shape, props)),
+    ...(renderWithin && {
+      renderWithin: (props, options) => renderWithin(assertValidProps(shape, props), options),
+    }),
+    validate,
   };
 }
 
+/**
+ * Add `renderRedacted()` and the `redacted` render option. The redacted copy
+ * is made in the same render as the text, so it always matches what was
+ * rendered.
+ */
+function withRedaction(template: Compiled): Template {
+  const { render, renderBoth, ...rest } = template;
+  return {
+    ...rest,
+    render: ((props: Record<string, unknown>, options?: { redacted?: boolean }) =>
+      options?.redacted ? renderBoth(props) : render(props)) as Template["render"],
+    renderRedacted: (props) => renderBoth(props).redacted,
+  };
+}
+
+/** Add `outputSchema` and `parseOutput()` when the template declares `interface Output` */
+function withOutput(template: Template, parsed: ParsedTemplate): Template {
+  const shape = outputShape(parsed, { json: true });
+  if (!shape) return template;
+  return {
+    ...template,
+    outputSchema: generateOutputSchema(parsed)!,
+    parseOutput: (text) => parseOutput(shape, text),
+  };
+}
+
+function compileTemplate(
+  parsed: ParsedTemplate,
+  compiled: Map<string, Compiled>,
+  filename: string | undefined,
+  options: CompileOptions,
+): Compiled {
+  // Helpers and partials the body can call, by name
+  const scope: Record<string, unknown> = {};
+  const project = projectHelpers(parsed, options);
+  const helpers = referencedHelpers(parsed, Object.keys(project));
+  for (const name of helpers.builtins) {
+    scope[name] = builtinHelpers[name as keyof typeof builtinHelpers];
+  }
+  for (const name of helpers.project) scope[name] = project[name];
+  for (const partial of parsed.partials) {
+    const template = compiled.get(partialPath(parsed, partial))!;
+    // A partial's output is trusted: it escaped its own values
+    scope[partial.name] = parsed.escape
+      ? (props: Record<string, unknown>) => builtinHelpers.raw(template.render(props))
+      : (props: Record<string, unknown>) => template.render(props);
+  }
+
+  const renderError = (error: unknown, expression: ExpressionSegment | undefined): unknown => {
+    // Errors from partials already point at the partial's own expression
+    if (!expression || error instanceof TemplateRenderError) return error;
+    return new TemplateRenderError({
+      filename: expression.filePath ?? filename ?? "<template>",
+      position: expression.range.start,
+      expression: expression.code.trim(),
+      cause: error,
+    });
+  };
+  const { render, renderMessages, renderTrace } =
+    options.mode === "interpret"
+      ? interpretRenderFunctions(parsed, scope, { normalize: options.normalize, renderError })
+      : evaluateRenderFunctions(parsed, scope, options, renderError);
+
+  const tokenizer =
+    options.tokenizer ?? (options.mode === "interpret" ? approximateTokenizer : projectTokenizer(parsed));
+  const count = (text: string) => tokenizer.count(text);
+  // The redacted copy swaps the values read from `@redact` props for their
+  // placeholders as the trace renders them
+  const placeholders = redactedExpressions(parsed);
+  const renderBoth = (props: Record<string, unknown>): RedactedRender => {
+    if (!parsed.redaction?.length) {
+      const text = render(props);
+      return { text, redacted: text };
+    }
+    const { text, segments } = renderTrace(props);
+    return { text, redacted: redact(segments, placeholders) };
+  };
+
+  const { maxTokens, truncation } = parsed;
+  const template: Compiled = {
+    render,
+    renderBoth,
+    renderMessages,
+    countTokens: (props) => count(render(props)),
+    renderWithTrace: renderTrace,
+    ...(truncation && {
+      renderWithin: (props, options) =>
+        renderWithin(render, props, truncation, count, options?.maxTokens ?? maxTokens, filename),
+    }),
+    ...(maxTokens !== undefined && { maxTokens }),
+    raw: parsed.body,
+    meta: parsed.meta ?? {},
+  };
+  if (maxTokens === undefined || options.enforceBudget === false) return template;
+
+  const budget = (text: string) => checkBudget(text, maxTokens, count, filename);
+  return {
+    ...template,
+    render: (props) => budget(render(props)),
+    renderBoth: (props) => {
+      const both = renderBoth(props);
+      budget(both.text);
+      return both;
+    },
+    renderMessages: (props) => {
+      const messages = renderMessages(props);
+      budget(messages.map((m) => m.content).join("\n\n"));
+      return messages;
+    },
+  };
+}
+
+/** Compile the body's render functions with `new Function()` */
+function evaluateRenderFunctions(
+  parsed: ParsedTemplate,
+  scope: Record<string, unknown>,
+  options: CompileOptions,
+  renderError: (error: unknown, expression: ExpressionSegment | undefined) => unknown,
+): RenderFunctions {
+  const names = Object.keys(scope);
+  const declareScope = names.length > 0 ? `const { ${names.join(", ")} } = __scope;\n` : "";
+
+  const { code, expressions } = renderFunctions(parsed, {
+    track: true,
+    normalize: options.normalize,
+    trace: true,
+  });
+
+  // Helpers and partials live in an outer scope so a prop with the same name
+  // shadows them
+  const functions = "{ render: __render, renderMessages: __renderMessages, renderTrace: __renderTrace }";
+  const fnBody = `${declareScope}${code}return ${functions};`;
+  return new Function("__scope", "__renderError", "__renderSupport", fnBody)(
+    scope,
+    (error: unknown, at: number) => renderError(error, expressions[at]),
+    renderSupport,
+  ) as RenderFunctions;
+}
+
+/**
+ * The project helpers `compile()` can give the body: the `helpers` option's,
+ * or the exports of its module or the one named in `typemark.config.json`
+ * that the body uses
+ */
+function projectHelpers(parsed: ParsedTemplate, options: CompileOptions): Record<string, unknown> {
+  if (typeof options.helpers === "object") return options.helpers;
+  if (options.mode === "interpret") {
+    if (options.helpers !== undefined) {
+      throw new Error("Interpret mode takes the helpers themselves as `helpers`, not the path of their module");
+    }
+    return {};
+  }
+
+  const { project } = bodyHelpers(parsed, options.helpers && resolve(options.helpers));
+  if (!project) return {};
+  const module = nodeRequire()(project.path) as Record<string, unknown>;
+  return Object.fromEntries(project.names.map((name) => [name, module[name]]));
+}
+
+/** The tokenizer exported by the module named in `typemark.config.json` */
+function projectTokenizer(parsed: ParsedTemplate): Tokenizer {
+  const path = tokenizerPath(parsed);
+  if (!path) return approximateTokenizer;
+  return (nodeRequire()(path) as { default: Tokenizer }).default;
+}
+
 /**
  * Compile a parsed template into a JavaScript module string.
  * Used by the Bun loader and codegen to emit importable modules.
+ *
+ * Layouts are merged in at compile time. Partials become imports of the
+ * other `.mdt` files, so the module needs a loader that handles `.mdt`
+ * imports. When the template has a `filePath`, the partial graph is walked
+ * up front to report missing files and cycles.
+ *
+ * The module imports the functions its render code uses to normalize,
+ * escape and trace from `typemark/runtime`, along with the default
+ * tokenizer. With `validate` or `strict`, it imports its validator from
+ * there too, as it does the budget check when the template declares
+ * `maxTokens`, `renderWithin` when props are annotated with `@priority`,
+ * `redact` when they're annotated with `@redact` and `parseOutput` when it
+ * declares `interface Output`. Helpers the body uses are imported from
+ * `typemark/helpers` and the project's helpers module, and a project
+ * tokenizer from its module.
+ *
+ * An inline source map maps the render functions back to the `.mdt` files
+ * they came from, so stack traces point into the template.
  */
-export function compileToString(parsed: ParsedTemplate): string {
-  const { propKeys, body } = parsed;
+export function compileToString(parsed: ParsedTemplate, options: CompileOptions = {}): string {
+  if (typeof options.helpers === "object") {
+    throw new Error("compileToString() takes the path of a helpers module as `helpers`, not the helpers themselves");
+  }
+  const template = applyLayout(parsed);
+  const shape: PropsShape | undefined =
+    options.validate || options.strict ? propsShape(parsed) : undefined;
 
-  const destructure =
-    propKeys.length > 0 ? `const { ${propKeys.join(", ")} } = props;` : "";
+  const structured = outputShape(parsed, { json: true });
 
-  const escapedRaw = body
+  if (template.filePath) resolvePartialGraph(template);
+
+  const escapedRaw = template.body
     .replace(/\\/g, "\\\\")
     .replace(/`/g, "\\`")
     .replace(/\$\{/g, "\\${");
 
-  const lines = ["export default {"];
-  lines.push("  render(props) {");
-  if (destructure) {
-    lines.push(`    ${destructure}`);
+  const { rootDir } = options;
+  const modulePath = (path: string) => (rootDir ? relative(rootDir, path).split(sep).join("/") : path);
+
+  const { maxTokens, truncation, redaction } = template;
+  const budgeted = maxTokens !== undefined && options.enforceBudget !== false;
+  const name = JSON.stringify(
+    template.filePath ? (rootDir ? modulePath(template.filePath) : relative(".", template.filePath)) : "<template>",
+  );
+  const tokenizer = tokenizerPath(template);
+
+  const lines: string[] = [];
+  const runtime = [
+    ...(shape ? ["assertValidProps", "validateProps"] : []),
+    ...(budgeted ? ["checkBudget"] : []),
+    ...(truncation ? ["renderWithin"] : []),
+    ...(redaction ? ["redact"] : []),
+    ...(structured ? ["parseOutput"] : []),
+    ...(tokenizer ? [] : ["approximateTokenizer"]),
+    "renderSupport as __renderSupport",
+  ];
+  lines.push(`import { ${runtime.join(", ")} } from "typemark/runtime";`);
+  const helpers = bodyHelpers(template, options.helpers && resolve(options.helpers));
+  if (helpers.builtins.length > 0) {
+    lines.push(`import { ${helpers.builtins.join(", ")} } from "typemark/helpers";`);
+  }
+  if (helpers.project) {
+    const { path, names } = helpers.project;
+    lines.push(`import { ${names.join(", ")} } from ${moduleSpecifier(template, path)};`);
+  }
+  if (tokenizer) lines.push(`import __tokenizer from ${moduleSpecifier(template, tokenizer)};`);
+  for (const partial of template.partials) {
+    const module = `__partial_${partial.name}`;
+    lines.push(`import ${module} from ${JSON.stringify(partial.specifier)};`);
+    const render = `${module}.render(props)`;
+    lines.push(`const ${partial.name} = (props) => ${template.escape ? `__raw(${render})` : render};`);
+  }
+  lines.push("");
+
+  // Mappings are relative to the render functions, which follow the header
+  const header = lines.join("\n") + "\n";
+  const { code, mappings } = renderFunctions(template, {
+    normalize: options.normalize,
+    trace: true,
+    ...(rootDir && { tracePath: modulePath }),
+  });
+
+  lines.length = 0;
+  if (shape) lines.push("", `const __shape = ${JSON.stringify(shape)};`);
+  lines.push("", `const __countTokens = (text) => ${tokenizer ? "__tokenizer" : "approximateTokenizer"}.count(text);`);
+  if (truncation) lines.push(`const __truncation = ${JSON.stringify(truncation)};`);
+  if (budgeted) {
+    lines.push(`const __budget = (text) => checkBudget(text, ${maxTokens}, __countTokens, ${name});`);
   }
-  lines.push(`    return \`${body}\`;`);
-  lines.push("  },");
-  lines.push(`  raw: \`${escapedRaw}\``);
+
+  if (redaction) lines.push(`const __redaction = ${JSON.stringify(redactedExpressions(template))};`);
+  if (structured) lines.push(`const __outputShape = ${JSON.stringify(structured)};`);
+
+  // The redacted copy is made in the same traced render as the text
+  lines.push("", "function __renderBoth(props) {");
+  if (options.strict) lines.push("  props = assertValidProps(__shape, props);");
+  const rendered = redaction ? "{ text, segments } = __renderTrace(props)" : "text = __render(props)";
+  lines.push(`  const ${rendered};`);
+  if (budgeted) lines.push("  __budget(text);");
+  lines.push(`  return { text, redacted: ${redaction ? "redact(segments, __redaction)" : "text"} };`, "}");
+
+  const props = options.strict ? "assertValidProps(__shape, props)" : "props";
+  const render = budgeted ? `__budget(__render(${props}))` : `__render(${props})`;
+  lines.push("", "export default {");
+  lines.push(`  render: (props, options) => (options?.redacted ? __renderBoth(props) : ${render}),`);
+  lines.push("  renderRedacted: (props) => __renderBoth(props).redacted,");
+  if (budgeted) {
+    lines.push("  renderMessages: (props) => {");
+    lines.push(`    const messages = __renderMessages(${props});`);
+    lines.push('    __budget(messages.map((m) => m.content).join("\\n\\n"));');
+    lines.push("    return messages;");
+    lines.push("  },");
+  } else if (options.strict) {
+    lines.push(`  renderMessages: (props) => __renderMessages(${props}),`);
+  } else {
+    lines.push("  renderMessages: __renderMessages,");
+  }
+  if (shape) lines.push("  validate: (props) => validateProps(__shape, props),");
+  lines.push("  countTokens: (props) => __countTokens(__render(props)),");
+  lines.push(`  renderWithTrace: (props) => __renderTrace(${props}),`);
+  if (truncation) {
+    const budget = maxTokens ?? "undefined";
+    lines.push(
+      `  renderWithin: (props, options) => renderWithin(__render, ${props}, __truncation, __countTokens, options?.maxTokens ?? ${budget}, ${name}),`,
+    );
+  }
+  if (structured) {
+    lines.push(`  outputSchema: ${JSON.stringify(generateOutputSchema(parsed))},`);
+    lines.push("  parseOutput: (text) => parseOutput(__outputShape, text),");
+  }
+  if (maxTokens !== undefined) lines.push(`  maxTokens: ${maxTokens},`);
+  lines.push(`  raw: \`${escapedRaw}\`,`);
+  lines.push(`  meta: ${JSON.stringify(template.meta ?? {})},`);
   lines.push("};");
 
-  return lines.join("\n") + "\n";
+  const output = header + code + lines.join("\n") + "\n";
+  if (mappings.length === 0) return output;
+
+  const offset = header.length;
+  const map = createSourceMap(
+    output,
+    mappings.map((mapping) => ({ ...mapping, source: modulePath(mapping.source), offset: mapping.offset + offset })),
+    new Map(parsed.filePath ? [[modulePath(parsed.filePath), parsed.source]] : []),
+  );
+  if (rootDir && options.sourceRoot !== undefined) map.sourceRoot = options.sourceRoot;
+  return `${output}${inlineSourceMapComment(map)}\n`;
+}
+
+/** How a module next to `template` imports the file at `path` */
+function moduleSpecifier(template: ParsedTemplate, path: string): string {
+  if (!template.filePath) return JSON.stringify(path);
+  let specifier = relative(dirname(template.filePath), path).split(sep).join("/");
+  if (!specifier.startsWith(".")) specifier = `./${specifier}`;
+  return JSON.stringify(specifier);
 }
@@ -0,0 +1,175 @@
+import type ts from "typescript";
+import { dirname, join, resolve } from "node:path";
+import * as builtinHelpers from "./helpers.ts";
+import { fs, typescript } from "./lazy.ts";
+import type { Tokenizer } from "./tokens.ts";
+import type { ParsedTemplate } from "./types.ts";
+
+export const CONFIG_FILE = "typemark.config.json";
+
+/** The contents of `typemark.config.json` */
+export interface TypemarkConfig {
+  /**
+   * Path of a module, relative to the config file, whose named exports are
+   * available as helpers in every template body
+   */
+  helpers?: string;
+  /**
+   * Path of a module, relative to the config file, whose default export is
+   * the {@link Tokenizer} used to count tokens
+   */
+  tokenizer?: string;
+}
+
+/** Helpers a template body uses, and where each comes from */
+export interface BodyHelpers {
+  /** Built-in helpers, imported from `typemark/helpers` */
+  builtins: string[];
+  /** Project helpers, imported from the module named in the config file */
+  project?: { path: string; names: string[] };
+}
+
+/**
+ * Find the `typemark.config.json` that applies to `parsed`: the nearest one
+ * in its directory or above, starting from the working directory when the
+ * template has no file path. Throws if the file isn't a valid config.
+ */
+export function loadConfig(parsed: ParsedTemplate): { path: string; config: TypemarkConfig } | undefined {
+  let dir = parsed.filePath ? dirname(resolve(parsed.filePath)) : process.cwd();
+
+  for (;;) {
+    const path = join(dir, CONFIG_FILE);
+    if (fs().existsSync(path)) return { path, config: readConfig(path) };
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+function readConfig(path: string): TypemarkConfig {
+  let config: unknown;
+  try {
+    config = JSON.parse(fs().readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Invalid ${CONFIG_FILE} at ${path}: ${(error as Error).message}`);
+  }
+
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`Invalid ${CONFIG_FILE} at ${path}: expected an object`);
+  }
+  const { helpers, tokenizer } = config as Record<string, unknown>;
+  for (const [key, value] of Object.entries({ helpers, tokenizer })) {
+    if (value !== undefined && typeof value !== "string") {
+      throw new Error(`Invalid ${CONFIG_FILE} at ${path}: \`${key}\` must be a module path`);
+    }
+  }
+  return { helpers: helpers as string | undefined, tokenizer: tokenizer as string | undefined };
+}
+
+/** Absolute path of the tokenizer module named in the config, if any */
+export function tokenizerPath(parsed: ParsedTemplate): string | undefined {
+  const loaded = loadConfig(parsed);
+  return loaded?.config.tokenizer ? resolve(dirname(loaded.path), loaded.config.tokenizer) : undefined;
+}
+
+/**
+ * The config file that applies to `parsed` and the helpers and tokenizer
+ * modules it names: files whose changes can change the compiled template,
+ * for bundlers to watch
+ */
+export function configFiles(parsed: ParsedTemplate): string[] {
+  const loaded = loadConfig(parsed);
+  if (!loaded) return [];
+  const { helpers, tokenizer } = loaded.config;
+  const modules = [helpers, tokenizer].filter((path) => path !== undefined);
+  return [loaded.path, ...modules.map((path) => resolve(dirname(loaded.path), path))];
+}
+
+/**
+ * The helpers referenced by `parsed`'s body, with the project helpers read
+ * from the module at `helpersPath`, an absolute path, or else the one named
+ * in the config file. See {@link referencedHelpers}.
+ */
+export function bodyHelpers(parsed: ParsedTemplate, helpersPath?: string): BodyHelpers {
+  const loaded = helpersPath ? undefined : loadConfig(parsed);
+  const path = helpersPath ?? (loaded?.config.helpers && resolve(dirname(loaded.path), loaded.config.helpers));
+  const { builtins, project } = referencedHelpers(parsed, path ? exportedNames(path) : []);
+  return { builtins, ...(path && project.length > 0 && { project: { path, names: project } }) };
+}
+
+/**
+ * The built-in helpers and the `projectNames` that `parsed`'s body
+ * references. Props and partials shadow helpers, and project helpers shadow
+ * built-ins of the same name. Names are found by a textual scan of the
+ * body's code, so a helper named only in a string may still be included;
+ * that is harmless.
+ */
+export function referencedHelpers(
+  parsed: ParsedTemplate,
+  projectNames: string[],
+): { builtins: string[]; project: string[] } {
+  const referenced = referencedNames(parsed);
+  for (const key of parsed.propKeys) referenced.delete(key);
+  for (const partial of parsed.partials) referenced.delete(partial.name);
+
+  const project = projectNames.filter((name) => referenced.has(name));
+  const builtins = Object.keys(builtinHelpers).filter((name) => referenced.has(name) && !project.includes(name));
+  return { builtins, project };
+}
+
+/** Every identifier-like word in the body's expressions and directives */
+function referencedNames(parsed: ParsedTemplate): Set<string> {
+  const names = new Set<string>();
+  for (const segment of parsed.ast.body.segments) {
+    if (!("code" in segment) || segment.code === undefined) continue;
+    for (const match of segment.code.matchAll(/(?<![\w$.])[A-Za-z_$][\w$]*/g)) {
+      names.add(match[0]);
+    }
+  }
+  return names;
+}
+
+/**
+ * The value exports of a helpers module, read with the TypeScript parser so
+ * the module isn't run. `export *` re-exports aren't followed.
+ */
+function exportedNames(path: string): string[] {
+  let source: string;
+  try {
+    source = fs().readFileSync(path, "utf8");
+  } catch {
+    throw new Error(`Cannot find the helpers module "${path}"`);
+  }
+
+  const ts = typescript();
+  const sourceFile = ts.createSourceFile(path, source, ts.ScriptTarget.Latest);
+  const names: string[] = [];
+  const isExported = (node: ts.Node) =>
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword) &&
+    !(ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+      statement.name &&
+      isExported(statement)
+    ) {
+      names.push(statement.name.text);
+    } else if (ts.isVariableStatement(statement) && isExported(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) names.push(declaration.name.text);
+      }
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const element of statement.exportClause.elements) {
+        if (!element.isTypeOnly && element.name.text !== "default") names.push(element.name.text);
+      }
+    }
+  }
+  return names;
+}
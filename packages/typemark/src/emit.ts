@@ -0,0 +1,391 @@
+import { applyWhitespaceControl, textSource, trimSegments } from "./body.ts";
+import { messageBlocks } from "./messages.ts";
+import { normalizeSteps, type NormalizeOptions } from "./normalize.ts";
+import type { RenderSupportOptions } from "./runtime.ts";
+import type { Mapping } from "./sourcemap.ts";
+import type { TraceLiteral } from "./trace.ts";
+import type { BodySegment, ExpressionSegment, ParsedTemplate, Position } from "./types.ts";
+import { dedentTemplateLiterals } from "./whitespace.ts";
+
+export interface RenderFunctionsOptions {
+  /**
+   * Record the index of the `${}` expression being evaluated in `__at`, and
+   * pass errors to `__renderError(error, __at)`, which must be in scope.
+   */
+  track?: boolean;
+  /** Post-render normalization; off unless `true` or options */
+  normalize?: NormalizeOptions | boolean;
+  /** Also emit `__renderTrace`, for `renderWithTrace()` */
+  trace?: boolean;
+  /** How trace segments name the file they're from; default: its path as given */
+  tracePath?: (filePath: string) => string;
+}
+
+/** Generated render functions, with mappings back to the `.mdt` sources */
+export interface EmittedCode {
+  code: string;
+  mappings: Mapping[];
+  /** The body's expressions, indexed by `__at` */
+  expressions: ExpressionSegment[];
+}
+
+/**
+ * Source of the `__render` and `__renderMessages` functions for a template.
+ * Chat templates build their messages and join them for `render`; plain
+ * templates render a string and wrap it in a single user message.
+ *
+ * Mappings are recorded for body text and expressions whose file is known:
+ * the segment's own `filePath` for layout content, otherwise the template's.
+ *
+ * Whitespace control markers are applied and nested template literals
+ * dedented here, and each rendered string passes through `__normalize`
+ * when normalization is on. With an escaping policy, each `${}` value
+ * passes through `__escape`; the conditions and values of block directives
+ * don't.
+ *
+ * With `trace`, `__renderTrace` renders the same text as `__render` but
+ * returns a `RenderTrace`: each template literal is tagged with `__trace`
+ * (see `trace.ts`), which records the source of its text and values.
+ *
+ * The code ends by declaring these functions with `__renderSupport`, which
+ * must be in scope: `renderSupport` from `typemark/runtime`.
+ */
+export function renderFunctions(
+  parsed: ParsedTemplate,
+  options: RenderFunctionsOptions = {},
+): EmittedCode {
+  const normalize = normalizeSteps(options.normalize).length > 0;
+  const out = new Emitter(parsed, options, normalize, false);
+  renderText(out, parsed);
+
+  // Expressions are visited in the same order, so `__at` indexes match
+  const trace = new Emitter(parsed, options, normalize, true);
+  if (options.trace) {
+    trace.line();
+    renderTrace(trace, parsed);
+  }
+
+  const names = [
+    ...(normalize ? ["__normalize"] : []),
+    ...(parsed.escape ? ["__escape", "__raw"] : []),
+    ...(options.trace ? ["__trace", "__normalizeTrace", "__traced"] : []),
+  ];
+  const support: RenderSupportOptions = {
+    ...(options.normalize !== undefined && { normalize: options.normalize }),
+    ...(parsed.escape && { escape: parsed.escape }),
+    ...(options.trace && { literals: trace.literals }),
+  };
+  if (names.length > 0) {
+    trace.line();
+    trace.line(`const { ${names.join(", ")} } = __renderSupport(${JSON.stringify(support)});`);
+  }
+
+  const traced = trace.result();
+  const result = out.result();
+  return {
+    code: result.code + traced.code,
+    mappings: [
+      ...result.mappings,
+      ...traced.mappings.map((mapping) => ({ ...mapping, offset: mapping.offset + result.code.length })),
+    ],
+    expressions: result.expressions,
+  };
+}
+
+function renderText(out: Emitter, parsed: ParsedTemplate): void {
+  const blocks = messageBlocks(parsed);
+
+  if (!blocks) {
+    out.openFunction("__render");
+    out.write("  return ");
+    out.literal(trimSegments(parsed.ast.body.segments));
+    out.line(";");
+    out.closeFunction();
+    out.line();
+    out.line("function __renderMessages(props) {");
+    out.line('  return [{ role: "user", content: __render(props) }];');
+    out.line("}");
+    return;
+  }
+
+  out.openFunction("__renderMessages");
+  out.line("  return [");
+  for (const block of blocks) {
+    out.write(`    { role: ${JSON.stringify(block.role)}, content: `);
+    out.literal(block.segments);
+    out.line(" },");
+  }
+  out.line("  ];");
+  out.closeFunction();
+  out.line();
+  out.line("function __render(props) {");
+  out.line('  return __renderMessages(props).map((message) => message.content).join("\\n\\n");');
+  out.line("}");
+}
+
+/** `__renderTrace`, with each message's segments separated as `__render` joins them */
+function renderTrace(out: Emitter, parsed: ParsedTemplate): void {
+  const blocks = messageBlocks(parsed);
+
+  out.openFunction("__renderTrace");
+  if (!blocks) {
+    out.write("  return __traced(");
+    out.literal(trimSegments(parsed.ast.body.segments));
+    out.line(");");
+    out.closeFunction();
+    return;
+  }
+
+  out.line("  const messages = [");
+  for (const block of blocks) {
+    out.write("    ");
+    out.literal(block.segments);
+    out.line(",");
+  }
+  out.line("  ];");
+  out.line('  const separator = { type: "separator", text: "\\n\\n" };');
+  out.line("  return __traced(messages.flatMap((segments, i) => (i === 0 ? segments : [separator, ...segments])));");
+  out.closeFunction();
+}
+
+/**
+ * The pattern a render function destructures props with, e.g.
+ * `{ name, tone = "formal" }`, or undefined when there are no keys. Props
+ * with a default get it when they're left out or `undefined`; defaults for
+ * keys that aren't in Props are reported by the checker and otherwise ignored.
+ */
+export function destructuring(parsed: ParsedTemplate): string | undefined {
+  const defaults = parsed.defaults ?? {};
+  const keys = boundProps(parsed);
+  if (keys.length === 0) return undefined;
+
+  const bindings = keys.map((key) =>
+    key in defaults ? `${key} = ${JSON.stringify(defaults[key])}` : key,
+  );
+  return `{ ${bindings.join(", ")} }`;
+}
+
+/** The props render functions bind as variables: those whose keys are identifiers */
+export function boundProps(parsed: ParsedTemplate): string[] {
+  return parsed.propKeys.filter((key) => IDENTIFIER.test(key));
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+class Emitter {
+  private code = "";
+  private readonly mappings: Mapping[] = [];
+  private readonly expressions: ExpressionSegment[] = [];
+  /** When tracing, the literals tagged with `__trace`, by id */
+  readonly literals: TraceLiteral[] = [];
+  /** When tracing, the literals being written, innermost last */
+  private readonly open: TraceLiteral[] = [];
+  private readonly parsed: ParsedTemplate;
+  private readonly options: RenderFunctionsOptions;
+  private readonly normalize: boolean;
+  private readonly trace: boolean;
+
+  constructor(
+    parsed: ParsedTemplate,
+    options: RenderFunctionsOptions,
+    normalize: boolean,
+    trace: boolean,
+  ) {
+    this.parsed = parsed;
+    this.options = options;
+    this.normalize = normalize;
+    this.trace = trace;
+  }
+
+  write(text: string): void {
+    this.code += text;
+  }
+
+  line(text = ""): void {
+    this.code += `${text}\n`;
+  }
+
+  /** Start a render function, destructuring props into scope */
+  openFunction(name: string): void {
+    const pattern = destructuring(this.parsed);
+    this.line(`function ${name}(props) {`);
+    if (this.options.track) this.line("  let __at = -1;\n  try {");
+    if (pattern) this.line(`  const ${pattern} = props;`);
+  }
+
+  closeFunction(): void {
+    if (this.options.track) this.line("  } catch (error) {\n    throw __renderError(error, __at);\n  }");
+    this.line("}");
+  }
+
+  /**
+   * Emit body segments as a template literal. Block directives become nested
+   * template literals: `{{#if}}` a conditional, `{{#each}}` an `Array.from`
+   * mapping joined into a string, and `{{#with}}` an arrow function called
+   * with the value.
+   *
+   * When tracing, each of these literals is tagged with `__trace`, `{{#each}}`
+   * leaves its array of segment lists for the tag to flatten, and values are
+   * left for the tag to escape.
+   */
+  literal(segments: BodySegment[]): void {
+    const blocks: { segment: BodySegment; hasElse: boolean }[] = [];
+    const escape = this.parsed.escape && !this.trace;
+
+    if (this.normalize) this.write(this.trace ? "__normalizeTrace(" : "__normalize(");
+    this.openLiteral();
+    for (const segment of applyWhitespaceControl(segments)) {
+      const source = ("filePath" in segment && segment.filePath) || this.parsed.filePath;
+
+      switch (segment.type) {
+        case "Text":
+          this.traceText(segment, source);
+          this.mapped(textSource(segment.value), segment.range.start, source);
+          break;
+        case "Expression":
+          this.traceValue(segment, source);
+          this.map(segment.range.start, source);
+          this.write(escape ? "${__escape(" : "${");
+          this.expression(segment, source);
+          this.write(escape ? ")}" : "}");
+          break;
+        case "If":
+          this.traceValue(undefined);
+          blocks.push({ segment, hasElse: false });
+          this.map(segment.range.start, source);
+          this.write("${(");
+          this.expression(segment, source);
+          this.write(") ? ");
+          this.openLiteral();
+          break;
+        case "Else":
+          this.map(segment.range.start, source);
+          this.closeLiteral();
+          if (segment.code === undefined) {
+            blocks[blocks.length - 1]!.hasElse = true;
+            this.write(" : ");
+          } else {
+            this.write(" : (");
+            this.expression({ ...segment, code: segment.code, codeRange: segment.codeRange! }, source);
+            this.write(") ? ");
+          }
+          this.openLiteral();
+          break;
+        case "Each": {
+          this.traceValue(undefined);
+          blocks.push({ segment, hasElse: false });
+          const params = segment.index ? `${segment.item}, ${segment.index}` : segment.item;
+          this.map(segment.range.start, source);
+          this.write("${Array.from(");
+          this.expression(segment, source);
+          this.write(`, (${params}) => `);
+          this.openLiteral();
+          break;
+        }
+        case "With":
+          this.traceValue(undefined);
+          blocks.push({ segment, hasElse: false });
+          this.map(segment.range.start, source);
+          this.write(`\${((${segment.name}) => `);
+          this.openLiteral();
+          break;
+        case "BlockEnd": {
+          const block = blocks.pop()!;
+          this.closeLiteral();
+          if (block.segment.type === "If") {
+            this.write(block.hasElse ? "}" : ' : ""}');
+          } else if (block.segment.type === "Each") {
+            this.write(this.trace ? ")}" : ').join("")}');
+          } else if (block.segment.type === "With") {
+            // The value is the call's argument, written after the block's body
+            const withSource = block.segment.filePath || this.parsed.filePath;
+            this.write(")(");
+            this.expression(block.segment, withSource);
+            this.write(")}");
+          }
+          break;
+        }
+      }
+    }
+    this.closeLiteral();
+    if (this.normalize) this.write(")");
+  }
+
+  /** Open a template literal, tagged when tracing */
+  private openLiteral(): void {
+    if (this.trace) {
+      const literal: TraceLiteral = { text: [], values: [] };
+      this.write(`__trace(${this.literals.length})`);
+      this.literals.push(literal);
+      this.open.push(literal);
+    }
+    this.write("`");
+  }
+
+  private closeLiteral(): void {
+    this.write("`");
+    if (this.trace) this.open.pop();
+  }
+
+  /** Record where the open literal's text before its next value comes from */
+  private traceText(segment: BodySegment, filePath: string | undefined): void {
+    const literal = this.open[this.open.length - 1];
+    if (!literal) return;
+    const i = literal.values.length;
+    const start = literal.text[i]?.range.start ?? segment.range.start;
+    literal.text[i] = { range: { start, end: segment.range.end }, ...this.tracedFile(filePath) };
+  }
+
+  /** Record the open literal's next value: an expression, or a nested block */
+  private traceValue(segment: ExpressionSegment | undefined, filePath?: string): void {
+    const literal = this.open[this.open.length - 1];
+    if (!literal) return;
+    literal.values.push(
+      segment ? { expression: segment.code.trim(), range: segment.range, ...this.tracedFile(filePath) } : null,
+    );
+    literal.text.length = literal.values.length;
+  }
+
+  private tracedFile(filePath: string | undefined): { filePath?: string } {
+    if (!filePath) return {};
+    return { filePath: this.options.tracePath ? this.options.tracePath(filePath) : filePath };
+  }
+
+  /**
+   * Write an expression or directive's code, dedented. When tracking, it's
+   * recorded in `__at` so a render error can name it.
+   */
+  private expression(
+    segment: Pick<ExpressionSegment, "range" | "codeRange" | "code" | "filePath">,
+    source: string | undefined,
+  ): void {
+    const { range, codeRange, code, filePath } = segment;
+    if (this.options.track) this.write(`(__at = ${this.expressions.length}, `);
+    this.mapped(dedentTemplateLiterals(code), codeRange.start, source);
+    if (this.options.track) this.write(")");
+    this.expressions.push({ type: "Expression", range, codeRange, code, ...(filePath && { filePath }) });
+  }
+
+  result(): EmittedCode {
+    return { code: this.code, mappings: this.mappings, expressions: this.expressions };
+  }
+
+  /** Write `text`, mapping its start and the start of each line it spans */
+  private mapped(text: string, start: Position, source: string | undefined): void {
+    this.map(start, source);
+
+    let line = start.line;
+    let lineStart = 0;
+    for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+      this.write(text.slice(lineStart, i + 1));
+      lineStart = i + 1;
+      line++;
+      this.map({ offset: start.offset + lineStart, line, column: 1 }, source);
+    }
+    this.write(text.slice(lineStart));
+  }
+
+  private map(original: Position, source: string | undefined): void {
+    if (source) this.mappings.push({ offset: this.code.length, original, source });
+  }
+}
@@ -0,0 +1,186 @@
+import type { LineIndex } from "./source.ts";
+import type { Position, SourceRange, ValidationError } from "./types.ts";
+
+/** Machine-readable reason for a {@link TypemarkParseError} */
+export type ParseErrorCode =
+  | "missing-frontmatter-open"
+  | "missing-frontmatter-close"
+  | "missing-props"
+  | "unterminated-block"
+  | "unmatched-block"
+  | "invalid-block"
+  | "unterminated-string"
+  | "unterminated-expression"
+  | "unexpected-token"
+  | "invalid-annotation"
+  | "syntax-error"
+  | "partial-not-found"
+  | "partial-cycle"
+  | "partial-conflict"
+  | "layout-not-found"
+  | "layout-cycle"
+  | "unknown-slot"
+  | "unknown-message-role"
+  | "content-outside-message"
+  | "unsupported-type"
+  | "unsupported-expression";
+
+/**
+ * Thrown by `parse()` when a `.mdt` source is malformed.
+ *
+ * The message is prefixed with `file:line:column` and followed by a code
+ * frame pointing at the offending range, so it can be printed as-is.
+ */
+export class TypemarkParseError extends Error {
+  override name = "TypemarkParseError";
+  readonly code: ParseErrorCode;
+  /** The message without location or code frame */
+  readonly reason: string;
+  readonly filePath: string | undefined;
+  readonly range: SourceRange;
+  /** A code frame highlighting `range` in the source */
+  readonly frame: string;
+
+  constructor(options: {
+    code: ParseErrorCode;
+    reason: string;
+    source: string;
+    range: SourceRange;
+    filePath?: string;
+  }) {
+    const { code, reason, source, range, filePath } = options;
+    const frame = codeFrame(source, range);
+    const location = `${filePath ?? "<template>"}:${range.start.line}:${range.start.column}`;
+
+    super(`${location} - ${reason}\n\n${frame}`);
+    this.code = code;
+    this.reason = reason;
+    this.filePath = filePath;
+    this.range = range;
+    this.frame = frame;
+  }
+}
+
+/**
+ * Thrown by strict templates when `render()` is called with props that
+ * don't match the template's Props type.
+ */
+export class TemplatePropsError extends TypeError {
+  override name = "TemplatePropsError";
+  readonly errors: ValidationError[];
+
+  constructor(errors: ValidationError[]) {
+    super(`Invalid template props:\n${errors.map((e) => `  ${e.message}`).join("\n")}`);
+    this.errors = errors;
+  }
+}
+
+/**
+ * Thrown by `render()` when a `${}` expression throws. The original error is
+ * kept as `cause`.
+ */
+export class TemplateRenderError extends Error {
+  override name = "TemplateRenderError";
+  /** The template's file name, or `<template>` if unknown */
+  readonly filename: string;
+  /** 1-based line of the failing `${` */
+  readonly line: number;
+  /** 1-based column of the failing `${` */
+  readonly column: number;
+  /** The code of the failing expression */
+  readonly expression: string;
+
+  constructor(options: {
+    filename: string;
+    position: Position;
+    expression: string;
+    cause: unknown;
+  }) {
+    const { filename, position, expression, cause } = options;
+    const reason = cause instanceof Error ? cause.message : String(cause);
+
+    super(
+      `${filename}:${position.line}:${position.column} - Error rendering \`\${${expression}}\`: ${reason}`,
+      { cause },
+    );
+    this.filename = filename;
+    this.line = position.line;
+    this.column = position.column;
+    this.expression = expression;
+  }
+}
+
+/**
+ * Thrown by `render()` when the rendered prompt has more tokens than the
+ * template's `maxTokens` budget.
+ */
+export class TemplateBudgetError extends RangeError {
+  override name = "TemplateBudgetError";
+  /** The template's file name, or `<template>` if unknown */
+  readonly filename: string;
+  /** Tokens in the rendered prompt */
+  readonly tokens: number;
+  /** The budget declared with `export const maxTokens` */
+  readonly maxTokens: number;
+
+  constructor(options: { filename: string; tokens: number; maxTokens: number }) {
+    const { filename, tokens, maxTokens } = options;
+    super(`${filename} - Rendered prompt has ${tokens} tokens, over its budget of ${maxTokens}`);
+    this.filename = filename;
+    this.tokens = tokens;
+    this.maxTokens = maxTokens;
+  }
+}
+
+/** Shared state for a single `parse()` call */
+export interface ParseContext {
+  source: string;
+  lines: LineIndex;
+  filePath: string | undefined;
+}
+
+/** Throw a {@link TypemarkParseError} covering `[start, end)` of the source */
+export function throwParseError(
+  ctx: ParseContext,
+  code: ParseErrorCode,
+  reason: string,
+  start: number,
+  end: number,
+): never {
+  throw new TypemarkParseError({
+    code,
+    reason,
+    source: ctx.source,
+    range: ctx.lines.range(start, end),
+    filePath: ctx.filePath,
+  });
+}
+
+/**
+ * Render a few lines of `source` around `range`, marking the first line of
+ * the range with `>` and underlining it with carets.
+ */
+export function codeFrame(source: string, range: SourceRange, contextLines = 2): string {
+  const lines = source.split("\n");
+  const first = Math.max(1, range.start.line - contextLines);
+  const last = Math.min(lines.length, range.start.line + contextLines);
+  const gutter = String(last).length;
+
+  const out: string[] = [];
+  for (let n = first; n <= last; n++) {
+    const text = lines[n - 1] ?? "";
+    const marker = n === range.start.line ? ">" : " ";
+    out.push(`${marker} ${String(n).padStart(gutter)} | ${text}`.trimEnd());
+
+    if (n === range.start.line) {
+      const width =
+        range.end.line === range.start.line
+          ? Math.max(1, range.end.column - range.start.column)
+          : Math.max(1, text.length - range.start.column + 1);
+      const pad = " ".repeat(range.start.column - 1);
+      out.push(`  ${" ".repeat(gutter)} | ${pad}${"^".repeat(width)}`);
+    }
+  }
+
+  return out.join("\n");
+}
@@ -0,0 +1,48 @@
+import type { EscapeMode, EscapePolicy } from "./types.ts";
+
+/**
+ * Key of the text in a `raw()` value. It's a registered symbol, so `raw()`
+ * values are recognised across copies of the package, e.g. a project's
+ * helpers module importing a different one than its built templates.
+ */
+export const RAW: unique symbol = Symbol.for("typemark.raw");
+
+/** Trusted text, from `raw()`, which escaping leaves as is */
+export interface RawText {
+  readonly [RAW]: string;
+  toString(): string;
+}
+
+/** How each mode escapes a string */
+const TEXT_ESCAPERS: Record<EscapeMode, (text: string) => string> = {
+  xml: (text) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;"),
+  markers: (text) => text.replace(/<\//g, "<\\/").replace(/`{3,}|~{3,}/g, (run) => run.replace(/./g, "\\$&")),
+  json: (text) => JSON.stringify(text).slice(1, -1).replace(/</g, "\\u003c"),
+};
+
+/**
+ * `__escape(value)` for `policy`, which a template wraps each `${}` value
+ * in. Strings and objects are escaped and wrapped in the policy's tag;
+ * `raw()` values, numbers, booleans, `null` and `undefined` are rendered as
+ * they are.
+ *
+ * `markers` turns `</` into `<\/` and backslash-escapes runs of three or
+ * more backticks or tildes. `json` escapes `<` too, so a JSON-encoded value
+ * can't close a tag either.
+ */
+export function valueEscaper(policy: EscapePolicy | undefined): ((value: unknown) => unknown) | undefined {
+  if (!policy) return undefined;
+
+  const escapeText = TEXT_ESCAPERS[policy.mode];
+  const wrap = (text: string) => (policy.wrap ? `<${policy.wrap}>${text}</${policy.wrap}>` : text);
+  return (value) => {
+    if (value === null || (typeof value !== "object" && typeof value !== "string")) return value;
+    if (typeof value === "object" && RAW in value) return (value as RawText)[RAW];
+    // JSON-encoded arrays and objects are JSON themselves, not a string of them
+    return wrap(
+      policy.mode === "json"
+        ? (JSON.stringify(value) ?? String(value)).replace(/</g, "\\u003c")
+        : escapeText(String(value)),
+    );
+  };
+}
@@ -0,0 +1,633 @@
+import type ts from "typescript";
+import { resolve } from "node:path";
+import { throwParseError, type ParseContext } from "./errors.ts";
+import { typescript } from "./lazy.ts";
+import { createVirtualProgram } from "./program.ts";
+import type {
+  ConstDeclaration,
+  Declaration,
+  EscapeMode,
+  EscapePolicy,
+  FrontmatterNode,
+  LayoutReference,
+  LiteralValue,
+  PartialImport,
+  PropMember,
+  PropDefaults,
+  PropsDeclaration,
+  RedactionRule,
+  TemplateMeta,
+  TruncateStrategy,
+  TruncationRule,
+} from "./types.ts";
+
+/**
+ * Frontmatter is parsed on its own, without resolving imports. Only the ES5
+ * lib is loaded so utility types like `Pick` and `Omit` resolve when working
+ * out the Props keys.
+ */
+function frontmatterOptions(): ts.CompilerOptions {
+  const ts = typescript();
+  return {
+    noEmit: true,
+    noResolve: true,
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    lib: ["lib.es5.d.ts"],
+    types: [],
+  };
+}
+
+const VIRTUAL_PATH = resolve("__typemark_frontmatter__.ts");
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const XML_NAME = /^[A-Za-z_][\w.-]*$/;
+
+export interface ParsedFrontmatter {
+  node: FrontmatterNode;
+  /** Content of the Props type literal, between the braces */
+  propsBody: string;
+  /** Other types Props extends or is intersected with */
+  propsExtends: string[];
+  /** Top-level keys of the resolved Props type that can be destructured */
+  propKeys: string[];
+  /** The layout from `export const layout = "..."`, if declared */
+  layout: LayoutReference | undefined;
+  /** The value of `export const meta = { ... }`, if declared */
+  meta: TemplateMeta | undefined;
+  /** The value of `export const defaults = { ... }`, if declared */
+  defaults: PropDefaults | undefined;
+  /** The budget from `export const maxTokens = ...`, if declared */
+  maxTokens: number | undefined;
+  /** Props annotated with `@priority`, in declaration order */
+  truncation: TruncationRule[];
+  /** The escaping policy from `export const escape = ...`, if declared */
+  escape: EscapePolicy | undefined;
+  /** Props annotated with `@redact`, in declaration order */
+  redaction: RedactionRule[];
+}
+
+/**
+ * Parse the frontmatter between `start` and `end` with the TypeScript parser.
+ *
+ * Accepts imports, interfaces, type aliases and enums. Default imports of
+ * `.mdt` files are recorded as partials rather than type imports, and a
+ * few known values (`layout`, `meta`, `defaults`, `maxTokens` and `escape`) may be
+ * declared with `export const`. Props may be declared
+ * as `interface Props` (optionally extending other types) or as
+ * `type Props = ...`; its keys are resolved with the type checker so
+ * inherited and intersected members are included.
+ */
+export function parseFrontmatter(ctx: ParseContext, start: number, end: number): ParsedFrontmatter {
+  const ts = typescript();
+  const text = ctx.source.slice(start, end);
+  const program = createVirtualProgram(
+    new Map([[VIRTUAL_PATH, text]]),
+    frontmatterOptions(),
+    resolve("."),
+  );
+  const sourceFile = program.getSourceFile(VIRTUAL_PATH)!;
+
+  const [syntaxError] = program.getSyntacticDiagnostics(sourceFile);
+  if (syntaxError) {
+    // Unclosed brackets are reported at the end of the frontmatter, with the
+    // opening bracket as related information; point at the latter instead.
+    const [related] = syntaxError.relatedInformation ?? [];
+    const located = related?.start !== undefined ? related : syntaxError;
+    const reason = [syntaxError, ...(related ? [related] : [])]
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
+      .join(" ");
+
+    const errorStart = start + (located.start ?? 0);
+    throwParseError(
+      ctx,
+      "syntax-error",
+      reason,
+      errorStart,
+      errorStart + Math.max(1, located.length ?? 0),
+    );
+  }
+
+  // Offsets from the TS parser are relative to the frontmatter text
+  const range = (from: number, to: number) => ctx.lines.range(start + from, start + to);
+  const nodeRange = (node: ts.Node) => range(node.getStart(sourceFile, true), node.end);
+
+  const declarations: Declaration[] = [];
+  let props: PropsDeclaration | undefined;
+  let propsNode: ts.InterfaceDeclaration | ts.TypeAliasDeclaration | undefined;
+  let propsBody = "";
+  let propsExtends: string[] = [];
+  let layout: LayoutReference | undefined;
+  let meta: TemplateMeta | undefined;
+  let defaults: PropDefaults | undefined;
+  let maxTokens: number | undefined;
+  let truncation: TruncationRule[] = [];
+  let escape: EscapePolicy | undefined;
+  let redaction: RedactionRule[] = [];
+
+  for (const statement of sourceFile.statements) {
+    const statementText = statement.getText(sourceFile);
+
+    if (ts.isImportDeclaration(statement) && isPartialImport(statement)) {
+      declarations.push(partialImport(ctx, statement, sourceFile, start, nodeRange));
+      continue;
+    }
+
+    if (ts.isImportDeclaration(statement)) {
+      declarations.push({
+        type: "ImportDeclaration",
+        range: nodeRange(statement),
+        text: statementText,
+      });
+      continue;
+    }
+
+    if (
+      (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+      statement.name.text === "Props"
+    ) {
+      const shape = propsShape(statement, sourceFile);
+      propsNode = statement;
+      propsBody = text.slice(shape.bodyStart, shape.bodyEnd).trim();
+      propsExtends = shape.extends;
+
+      props = {
+        type: "PropsDeclaration",
+        range: nodeRange(statement),
+        text: text.slice(statement.getStart(sourceFile, true), statement.end),
+        bodyRange: range(shape.bodyStart, shape.bodyEnd),
+        members: shape.members.map((member) => propMember(member, sourceFile, nodeRange)),
+      };
+      truncation = truncationRules(ctx, shape.members, sourceFile, start);
+      redaction = redactionRules(shape.members, sourceFile);
+      declarations.push(props);
+      continue;
+    }
+
+    if (ts.isVariableStatement(statement) && isExported(statement)) {
+      const declaration = constDeclaration(ctx, statement, sourceFile, start, nodeRange);
+      declarations.push(declaration);
+
+      if (declaration.name === "layout") {
+        const initializer = statement.declarationList.declarations[0]!.initializer;
+        layout = {
+          specifier: (initializer as ts.StringLiteralLike).text,
+          range: declaration.range,
+        };
+      }
+      if (declaration.name === "meta" || declaration.name === "defaults") {
+        const initializer = statement.declarationList.declarations[0]!.initializer!;
+        const value = literalValue(ctx, declaration.name, initializer, sourceFile, start);
+        if (declaration.name === "meta") meta = value as TemplateMeta;
+        else defaults = value as PropDefaults;
+      }
+      if (declaration.name === "maxTokens") {
+        const initializer = statement.declarationList.declarations[0]!.initializer!;
+        maxTokens = Number((skipAssertions(initializer) as ts.NumericLiteral).text);
+      }
+      if (declaration.name === "escape") {
+        const initializer = statement.declarationList.declarations[0]!.initializer!;
+        escape = escapePolicy(ctx, initializer, sourceFile, start);
+      }
+      continue;
+    }
+
+    if (
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      declarations.push({
+        type: "TypeDeclaration",
+        range: nodeRange(statement),
+        name: statement.name.text,
+        text: text.slice(statement.getStart(sourceFile, true), statement.end),
+      });
+      continue;
+    }
+
+    // Report the first keyword after any modifiers, e.g. `const` in `export const`
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    const afterModifiers = modifiers?.length
+      ? modifiers[modifiers.length - 1]!.end
+      : statement.getStart(sourceFile);
+    const keywordStart = afterModifiers + /^\s*/.exec(text.slice(afterModifiers))![0].length;
+    const keyword = /^[\w$]+|^\S/.exec(text.slice(keywordStart))![0];
+    throwParseError(
+      ctx,
+      "unexpected-token",
+      `Unexpected \`${keyword}\` in frontmatter; expected an import, interface, type, enum or \`export const\` declaration`,
+      start + keywordStart,
+      start + keywordStart + keyword.length,
+    );
+  }
+
+  if (!props || !propsNode) {
+    throwParseError(ctx, "missing-props", "Missing `interface Props { ... }` in frontmatter", start, end);
+  }
+
+  return {
+    node: { type: "Frontmatter", range: range(0, text.length), declarations, props },
+    propsBody,
+    propsExtends,
+    propKeys: resolvePropKeys(program, propsNode, props),
+    layout,
+    meta,
+    defaults,
+    maxTokens,
+    truncation,
+    escape,
+    redaction,
+  };
+}
+
+/** Names accepted for `export const` declarations in the frontmatter */
+const FRONTMATTER_CONSTS = ["layout", "meta", "defaults", "maxTokens", "escape"];
+
+function isExported(node: ts.VariableStatement): boolean {
+  const ts = typescript();
+  return (node.modifiers ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Parse an `export const name = ...` declaration. Only a single, known name
+ * with an initializer is accepted; `layout` must be a string literal,
+ * `maxTokens` a positive integer, and `meta` and `defaults` object literals.
+ * `escape` is checked by {@link escapePolicy}.
+ */
+function constDeclaration(
+  ctx: ParseContext,
+  node: ts.VariableStatement,
+  sourceFile: ts.SourceFile,
+  start: number,
+  nodeRange: (node: ts.Node) => ConstDeclaration["range"],
+): ConstDeclaration {
+  const ts = typescript();
+  const { declarations, flags } = node.declarationList;
+  const [declaration] = declarations;
+  const fail = (reason: string, target: ts.Node): never =>
+    throwParseError(
+      ctx,
+      "unexpected-token",
+      reason,
+      start + target.getStart(sourceFile),
+      start + target.end,
+    );
+
+  if (!(flags & ts.NodeFlags.Const) || declarations.length !== 1 || !declaration) {
+    return fail("Frontmatter values must be declared one at a time with `export const`", node);
+  }
+  if (!ts.isIdentifier(declaration.name) || !FRONTMATTER_CONSTS.includes(declaration.name.text)) {
+    return fail(
+      `Unknown frontmatter value \`${declaration.name.getText(sourceFile)}\`; expected one of: ${FRONTMATTER_CONSTS.join(", ")}`,
+      declaration.name,
+    );
+  }
+  if (!declaration.initializer) {
+    return fail(`\`${declaration.name.text}\` needs a value`, declaration);
+  }
+
+  const name = declaration.name.text;
+  if (name === "layout" && !ts.isStringLiteralLike(declaration.initializer)) {
+    return fail("`layout` must be a string literal path to a .mdt file", declaration.initializer);
+  }
+  if (name === "maxTokens") {
+    const value = skipAssertions(declaration.initializer);
+    if (!ts.isNumericLiteral(value) || !Number.isInteger(Number(value.text)) || Number(value.text) <= 0) {
+      return fail("`maxTokens` must be a positive integer", declaration.initializer);
+    }
+  } else if (name !== "layout" && name !== "escape" && !ts.isObjectLiteralExpression(skipAssertions(declaration.initializer))) {
+    return fail(`\`${name}\` must be an object literal`, declaration.initializer);
+  }
+
+  return {
+    type: "ConstDeclaration",
+    range: nodeRange(node),
+    name,
+    initializer: declaration.initializer.getText(sourceFile),
+    initializerRange: nodeRange(declaration.initializer),
+  };
+}
+
+const ESCAPE_MODES: readonly EscapeMode[] = ["xml", "markers", "json"];
+
+/**
+ * Read `export const escape = ...`: a mode name, or an object with a `mode`
+ * and a tag to `wrap` values in. Wrapping without a mode escapes markers, so
+ * a value can't close its own tag.
+ */
+function escapePolicy(
+  ctx: ParseContext,
+  initializer: ts.Expression,
+  sourceFile: ts.SourceFile,
+  start: number,
+): EscapePolicy {
+  const fail = (reason: string): never =>
+    throwParseError(
+      ctx,
+      "unexpected-token",
+      reason,
+      start + initializer.getStart(sourceFile),
+      start + initializer.end,
+    );
+  const modes = `\`escape\` must be one of: ${ESCAPE_MODES.join(", ")}, or \`{ mode, wrap }\``;
+
+  const value = literalValue(ctx, "escape", initializer, sourceFile, start);
+  if (typeof value === "string") {
+    return ESCAPE_MODES.includes(value as EscapeMode) ? { mode: value as EscapeMode } : fail(modes);
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return fail(modes);
+
+  const { mode = "markers", wrap, ...rest } = value as Record<string, LiteralValue>;
+  if (Object.keys(rest).length > 0 || !ESCAPE_MODES.includes(mode as EscapeMode)) return fail(modes);
+  if (wrap !== undefined && (typeof wrap !== "string" || !XML_NAME.test(wrap))) {
+    return fail("`wrap` must be a tag name, e.g. `user_input`");
+  }
+  return { mode: mode as EscapeMode, ...(wrap !== undefined && { wrap }) };
+}
+
+/** Strip `as const`, `satisfies T` and parentheses from an expression */
+function skipAssertions(node: ts.Expression): ts.Expression {
+  const ts = typescript();
+  while (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Evaluate a literal initializer: strings, numbers, booleans, `null`, and
+ * arrays and objects of those. Anything else, such as an identifier or a
+ * call, is reported, since the value is read without running any code.
+ */
+function literalValue(
+  ctx: ParseContext,
+  name: string,
+  expression: ts.Expression,
+  sourceFile: ts.SourceFile,
+  start: number,
+): LiteralValue {
+  const ts = typescript();
+  const node = skipAssertions(expression);
+
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map((element) => literalValue(ctx, name, element, sourceFile, start));
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    const value: Record<string, LiteralValue> = {};
+    for (const property of node.properties) {
+      const key = ts.isPropertyAssignment(property) ? propertyName(property.name) : undefined;
+      if (key === undefined) {
+        throwParseError(
+          ctx,
+          "unexpected-token",
+          `\`${name}\` properties must be written as \`name: value\``,
+          start + property.getStart(sourceFile),
+          start + property.end,
+        );
+      }
+      const initializer = (property as ts.PropertyAssignment).initializer;
+      value[key] = literalValue(ctx, name, initializer, sourceFile, start);
+    }
+    return value;
+  }
+
+  throwParseError(
+    ctx,
+    "unexpected-token",
+    `\`${name}\` values must be literals: strings, numbers, booleans, null, arrays or objects`,
+    start + node.getStart(sourceFile),
+    start + node.end,
+  );
+}
+
+function propertyName(name: ts.PropertyName): string | undefined {
+  const ts = typescript();
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  return undefined;
+}
+
+/** A value import from a `.mdt` file, as opposed to an `import type` */
+function isPartialImport(node: ts.ImportDeclaration): boolean {
+  const ts = typescript();
+  return (
+    ts.isStringLiteral(node.moduleSpecifier) &&
+    node.moduleSpecifier.text.endsWith(".mdt") &&
+    !node.importClause?.isTypeOnly
+  );
+}
+
+function partialImport(
+  ctx: ParseContext,
+  node: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile,
+  start: number,
+  nodeRange: (node: ts.Node) => PartialImport["range"],
+): PartialImport {
+  const clause = node.importClause;
+  if (!clause?.name || clause.namedBindings) {
+    throwParseError(
+      ctx,
+      "unexpected-token",
+      "Partials must be imported by name only, e.g. `import Header from \"./header.mdt\"`",
+      start + node.getStart(sourceFile),
+      start + node.end,
+    );
+  }
+
+  return {
+    type: "PartialImport",
+    range: nodeRange(node),
+    name: clause.name.text,
+    specifier: (node.moduleSpecifier as ts.StringLiteral).text,
+    text: node.getText(sourceFile),
+  };
+}
+
+/**
+ * Split a Props declaration into its own members (from an interface body or
+ * the first type literal of an alias) and the other types it builds on.
+ */
+function propsShape(
+  node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+  sourceFile: ts.SourceFile,
+): { members: readonly ts.TypeElement[]; bodyStart: number; bodyEnd: number; extends: string[] } {
+  const ts = typescript();
+  if (ts.isInterfaceDeclaration(node)) {
+    const heritage = (node.heritageClauses ?? []).flatMap((clause) =>
+      clause.types.map((type) => type.getText(sourceFile)),
+    );
+    return {
+      members: node.members,
+      bodyStart: node.members.pos,
+      bodyEnd: node.members.end,
+      extends: heritage,
+    };
+  }
+
+  const parts: readonly ts.TypeNode[] = ts.isIntersectionTypeNode(node.type)
+    ? node.type.types
+    : [node.type];
+  const literal = parts.find((part): part is ts.TypeLiteralNode => ts.isTypeLiteralNode(part));
+  const others = parts.filter((part) => part !== literal).map((part) => {
+    const partText = part.getText(sourceFile);
+    return ts.isUnionTypeNode(part) || ts.isFunctionTypeNode(part) ? `(${partText})` : partText;
+  });
+
+  if (!literal) {
+    return { members: [], bodyStart: node.type.end, bodyEnd: node.type.end, extends: others };
+  }
+
+  return {
+    members: literal.members,
+    bodyStart: literal.members.pos,
+    bodyEnd: literal.members.end,
+    extends: others,
+  };
+}
+
+const TRUNCATE_STRATEGIES: readonly TruncateStrategy[] = ["start", "end", "middle"];
+
+/**
+ * Read `@priority` and `@truncate` JSDoc tags on Props members, which mark
+ * the props `renderWithin()` may shrink to fit a token budget
+ */
+function truncationRules(
+  ctx: ParseContext,
+  members: readonly ts.TypeElement[],
+  sourceFile: ts.SourceFile,
+  start: number,
+): TruncationRule[] {
+  const ts = typescript();
+  const rules: TruncationRule[] = [];
+
+  for (const member of members) {
+    if (!member.name) continue;
+    const tags = ts.getJSDocTags(member);
+    const tagValue = (name: string) => {
+      const tag = tags.find((t) => t.tagName.text === name);
+      if (!tag) return undefined;
+      const value = (ts.getTextOfJSDocComment(tag.comment) ?? "").trim();
+      const fail = (reason: string): never =>
+        throwParseError(ctx, "invalid-annotation", reason, start + tag.getStart(sourceFile), start + tag.end);
+      return { value, fail };
+    };
+
+    const priority = tagValue("priority");
+    const truncate = tagValue("truncate");
+    if (!priority) {
+      truncate?.fail("`@truncate` needs a `@priority` on the same prop");
+      continue;
+    }
+    if (!/^-?\d+$/.test(priority.value)) {
+      priority.fail("`@priority` must be an integer, e.g. `@priority 1`");
+    }
+    if (truncate && !TRUNCATE_STRATEGIES.includes(truncate.value as TruncateStrategy)) {
+      truncate.fail(`\`@truncate\` must be one of: ${TRUNCATE_STRATEGIES.join(", ")}`);
+    }
+
+    rules.push({
+      prop: memberName(member.name, sourceFile),
+      priority: Number(priority.value),
+      ...(truncate && { strategy: truncate.value as TruncateStrategy }),
+    });
+  }
+  return rules;
+}
+
+/**
+ * Read `@redact` JSDoc tags on Props members, which mark the props
+ * `renderRedacted()` hides. The tag's text is the placeholder, by default
+ * `[REDACTED:name]`.
+ */
+function redactionRules(members: readonly ts.TypeElement[], sourceFile: ts.SourceFile): RedactionRule[] {
+  const ts = typescript();
+  const rules: RedactionRule[] = [];
+  for (const member of members) {
+    const tag = member.name && ts.getJSDocTags(member).find((t) => t.tagName.text === "redact");
+    if (!tag) continue;
+    const prop = memberName(member.name!, sourceFile);
+    const placeholder = (ts.getTextOfJSDocComment(tag.comment) ?? "").trim();
+    rules.push({ prop, placeholder: placeholder || `[REDACTED:${prop}]` });
+  }
+  return rules;
+}
+
+function propMember(
+  member: ts.TypeElement,
+  sourceFile: ts.SourceFile,
+  nodeRange: (node: ts.Node) => PropMember["range"],
+): PropMember {
+  const ts = typescript();
+  const name = member.name ? memberName(member.name, sourceFile) : member.getText(sourceFile);
+
+  let typeText = "unknown";
+  if (ts.isPropertySignature(member)) {
+    typeText = member.type?.getText(sourceFile) ?? "any";
+  } else if (ts.isMethodSignature(member)) {
+    const params = member.parameters.map((p) => p.getText(sourceFile)).join(", ");
+    typeText = `(${params}) => ${member.type?.getText(sourceFile) ?? "any"}`;
+  } else if (ts.isIndexSignatureDeclaration(member)) {
+    typeText = member.type.getText(sourceFile);
+  }
+
+  return {
+    type: "PropMember",
+    range: nodeRange(member),
+    name,
+    optional: member.questionToken !== undefined,
+    typeText,
+  };
+}
+
+function memberName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  const ts = typescript();
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return name.getText(sourceFile);
+}
+
+/**
+ * Work out the destructurable top-level keys of Props. Types the checker
+ * can't see (e.g. imported bases, which aren't resolved here) contribute
+ * nothing, so the declared members are always included.
+ */
+function resolvePropKeys(
+  program: ts.Program,
+  node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+  props: PropsDeclaration,
+): string[] {
+  const ts = typescript();
+  const keys = new Set<string>();
+
+  const isPlainInterface =
+    ts.isInterfaceDeclaration(node) && (node.heritageClauses ?? []).length === 0;
+
+  if (!isPlainInterface) {
+    const checker = program.getTypeChecker();
+    const type = checker.getTypeAtLocation(node.name);
+    for (const property of checker.getPropertiesOfType(type)) {
+      keys.add(property.name);
+    }
+  }
+
+  for (const member of props.members) {
+    if (!member.name.startsWith("[")) keys.add(member.name);
+  }
+
+  return [...keys].filter((key) => IDENTIFIER.test(key));
+}
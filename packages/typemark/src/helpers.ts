@@ -0,0 +1,98 @@
+/**
+ * Helpers available in every template body, e.g. `${list(user.hobbies)}`.
+ *
+ * `compile()` passes them into the render functions, modules from
+ * `compileToString()` import the ones they use from `typemark/helpers`, and
+ * `checkTemplate()` types them from this file. A prop, partial or project
+ * helper with the same name takes precedence.
+ */
+
+import { RAW, type RawText } from "./escape.ts";
+
+/**
+ * A bullet list with one item per line. Lines after the first in an item are
+ * indented to sit under its text.
+ */
+export function list(items: Iterable<unknown>, bullet = "-"): string {
+  return Array.from(items, (item) => listItem(`${bullet} `, item)).join("\n");
+}
+
+/** A numbered list (`1. first`), counting from `start` */
+export function numbered(items: Iterable<unknown>, start = 1): string {
+  return Array.from(items, (item, i) => listItem(`${start + i}. `, item)).join("\n");
+}
+
+function listItem(marker: string, item: unknown): string {
+  return marker + String(item).replace(/\n/g, `\n${" ".repeat(marker.length)}`);
+}
+
+/** `value` as pretty-printed JSON */
+export function json(value: unknown, indent = 2): string {
+  return JSON.stringify(value, null, indent) ?? "undefined";
+}
+
+/**
+ * Wrap `content` in an XML-style tag on its own lines, e.g.
+ * `tag("context", doc, { source: "wiki" })`.
+ */
+export function tag(
+  name: string,
+  content: unknown,
+  attributes: Record<string, string | number | boolean> = {},
+): string {
+  const attrs = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${String(value).replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`)
+    .join("");
+  return `<${name}${attrs}>\n${String(content)}\n</${name}>`;
+}
+
+/**
+ * A Markdown code fence around `content`. The fence is made longer than any
+ * run of backticks inside, so the content can't close it.
+ */
+export function fence(lang: string, content: unknown): string {
+  const text = String(content);
+  const longest = Math.max(0, ...Array.from(text.matchAll(/`+/g), (match) => match[0].length));
+  const ticks = "`".repeat(Math.max(3, longest + 1));
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+/**
+ * Shorten `text` to at most `max` characters, ending with `ellipsis` when
+ * anything was cut.
+ */
+export function truncate(text: unknown, max: number, ellipsis = "…"): string {
+  const chars = Array.from(String(text));
+  if (chars.length <= max) return chars.join("");
+  return chars.slice(0, Math.max(0, max - ellipsis.length)).join("") + ellipsis;
+}
+
+/** `count` followed by the singular or plural noun: `plural(3, "task")` is `"3 tasks"` */
+export function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+/**
+ * Format a date. Without options it's the ISO calendar date (`2024-03-01`,
+ * in UTC); with options it's formatted by `Intl.DateTimeFormat`.
+ */
+export function date(
+  value: Date | string | number,
+  options?: Intl.DateTimeFormatOptions,
+  locale = "en-US",
+): string {
+  const d = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(d.getTime())) throw new RangeError(`Invalid date: ${String(value)}`);
+  if (!options) return d.toISOString().slice(0, 10);
+  return new Intl.DateTimeFormat(locale, options).format(d);
+}
+
+/**
+ * Mark `text` as trusted, so the template's escaping policy renders it as
+ * is: `${raw(instructions)}`. Only applies to a whole `${}` value; in
+ * templates without an `escape` policy it's plain text.
+ */
+export function raw(text: unknown): RawText {
+  const value = String(text);
+  return { [RAW]: value, toString: () => value };
+}
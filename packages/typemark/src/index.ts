@@ -1,4 +1,101 @@
 export { parse } from "./parser.ts";
+export type { ParseOptions } from "./parser.ts";
 export { compile, compileToString } from "./compiler.ts";
+export type { CompileOptions } from "./compiler.ts";
+export type { NormalizeOptions } from "./normalize.ts";
+export { propsShape, outputShape } from "./shape.ts";
+export type { ShapeOptions } from "./shape.ts";
+export { generateJsonSchema, generateOutputSchema } from "./schema.ts";
+export { validateProps, assertValidProps, parseOutput } from "./runtime.ts";
 export { generateDts, generateDtsForFile } from "./codegen.ts";
-export type { ParsedTemplate, Template } from "./types.ts";
+export { checkTemplate } from "./checker.ts";
+export { buildTemplates } from "./build.ts";
+export type { BuildOptions, BuildResult } from "./build.ts";
+export { resolvePartialGraph } from "./partials.ts";
+export { applyLayout, resolveLayoutChain } from "./layout.ts";
+export type { CheckOptions } from "./checker.ts";
+export * as helpers from "./helpers.ts";
+export { configFiles } from "./config.ts";
+export type { TypemarkConfig } from "./config.ts";
+export { approximateTokenizer } from "./tokens.ts";
+export type { Tokenizer } from "./tokens.ts";
+export type { RawText } from "./escape.ts";
+export {
+  TypemarkParseError,
+  TemplatePropsError,
+  TemplateRenderError,
+  TemplateBudgetError,
+  codeFrame,
+} from "./errors.ts";
+export type { ParseErrorCode } from "./errors.ts";
+export type {
+  ParsedTemplate,
+  Template,
+  ChatTemplate,
+  Message,
+  MessageRole,
+  LiteralValue,
+  TemplateMeta,
+  PropDefaults,
+  WithDefaults,
+  Truncatable,
+  TruncateStrategy,
+  TruncationRule,
+  TruncationCut,
+  RenderWithinOptions,
+  RenderWithinResult,
+  EscapeMode,
+  EscapePolicy,
+  RedactionRule,
+  RedactedRender,
+  RenderTrace,
+  TraceSegment,
+  TextTrace,
+  ExpressionTrace,
+  SeparatorTrace,
+  Structured,
+  OutputResult,
+  PropsOf,
+  OutputOf,
+  TemplateDiagnostic,
+  PropsShape,
+  TypeShape,
+  PrimitiveShape,
+  LiteralShape,
+  ArrayShape,
+  TupleShape,
+  ObjectShape,
+  PropertyShape,
+  UnionShape,
+  IntersectionShape,
+  RefShape,
+  ValidationError,
+  ValidationResult,
+  JsonSchema,
+  Position,
+  SourceRange,
+  TemplateAst,
+  FrontmatterNode,
+  Declaration,
+  ImportDeclaration,
+  PartialImport,
+  ConstDeclaration,
+  LayoutReference,
+  TypeDeclaration,
+  PropsDeclaration,
+  PropMember,
+  BodyNode,
+  BodySegment,
+  TextSegment,
+  ExpressionSegment,
+  SlotSegment,
+  SectionSegment,
+  MessageSegment,
+  MessageEndSegment,
+  BlockKind,
+  IfSegment,
+  ElseSegment,
+  EachSegment,
+  WithSegment,
+  BlockEndSegment,
+} from "./types.ts";
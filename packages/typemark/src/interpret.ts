@@ -0,0 +1,1002 @@
+import type ts from "typescript";
+import { applyWhitespaceControl, renderedText, trimSegments } from "./body.ts";
+import { boundProps } from "./emit.ts";
+import { TypemarkParseError, type ParseErrorCode } from "./errors.ts";
+import { valueEscaper } from "./escape.ts";
+import { fs, typescript } from "./lazy.ts";
+import { messageBlocks } from "./messages.ts";
+import { normalizer, type NormalizeOptions } from "./normalize.ts";
+import { advance } from "./source.ts";
+import { traced, traceNormalizer } from "./trace.ts";
+import type {
+  BodySegment,
+  ExpressionSegment,
+  Message,
+  ParsedTemplate,
+  RenderTrace,
+  SourceRange,
+  TraceSegment,
+} from "./types.ts";
+import { templateQuasis } from "./whitespace.ts";
+
+type Props = Record<string, unknown>;
+type Members = Record<PropertyKey, unknown>;
+
+/** The render functions `compile()` builds a template from */
+export interface RenderFunctions {
+  render: (props: Props) => string;
+  renderMessages: (props: Props) => Message[];
+  renderTrace: (props: Props) => RenderTrace;
+}
+
+export interface InterpretOptions {
+  normalize?: NormalizeOptions | boolean;
+  /** Turn an error thrown while evaluating `expression` into the one to throw */
+  renderError: (error: unknown, expression: ExpressionSegment) => unknown;
+}
+
+/**
+ * Globals expressions can use. Namespaces only expose the members in
+ * {@link GLOBAL_MEMBERS}, and are only named before one of them or called.
+ */
+const GLOBALS: Record<string, unknown> = {
+  undefined,
+  NaN,
+  Infinity,
+  Math,
+  JSON,
+  Object,
+  Array,
+  String,
+  Number,
+  Boolean,
+  parseInt,
+  parseFloat,
+  isNaN,
+  isFinite,
+  encodeURIComponent,
+};
+
+const GLOBAL_MEMBERS: Record<string, ReadonlySet<string>> = {
+  Math: new Set(Object.getOwnPropertyNames(Math).filter((name) => name !== "random")),
+  JSON: new Set(["parse", "stringify"]),
+  Object: new Set(["keys", "values", "entries", "fromEntries"]),
+  Array: new Set(["isArray", "from", "of"]),
+  String: new Set(["fromCharCode", "fromCodePoint"]),
+  Number: new Set([
+    "isFinite",
+    "isInteger",
+    "isNaN",
+    "isSafeInteger",
+    "parseFloat",
+    "parseInt",
+    "EPSILON",
+    "MAX_SAFE_INTEGER",
+    "MIN_SAFE_INTEGER",
+  ]),
+};
+
+/**
+ * The built-in functions expressions may hold as values, to pass as
+ * callbacks: the globals that aren't namespaces and the namespaces' members
+ */
+const BUILTIN_FUNCTIONS: ReadonlySet<unknown> = new Set([
+  ...Object.entries(GLOBALS).filter(([name]) => !(name in GLOBAL_MEMBERS)).map(([, value]) => value),
+  ...Object.entries(GLOBAL_MEMBERS).flatMap(([name, members]) =>
+    [...members].map((member) => (GLOBALS[name] as Members)[member]),
+  ),
+].filter((value) => typeof value === "function"));
+
+/**
+ * Methods expressions can call on values: those of arrays, strings, numbers
+ * and dates that return a new value instead of changing the one they're
+ * called on, and lookups on maps and sets.
+ */
+const METHODS = new Set([
+  // Arrays
+  "at",
+  "concat",
+  "entries",
+  "every",
+  "filter",
+  "find",
+  "findIndex",
+  "findLast",
+  "findLastIndex",
+  "flat",
+  "flatMap",
+  "includes",
+  "indexOf",
+  "join",
+  "keys",
+  "lastIndexOf",
+  "map",
+  "reduce",
+  "reduceRight",
+  "slice",
+  "some",
+  "toReversed",
+  "toSorted",
+  "toSpliced",
+  "values",
+  "with",
+  // Strings
+  "charAt",
+  "codePointAt",
+  "endsWith",
+  "localeCompare",
+  "match",
+  "normalize",
+  "padEnd",
+  "padStart",
+  "repeat",
+  "replace",
+  "replaceAll",
+  "split",
+  "startsWith",
+  "substring",
+  "toLocaleLowerCase",
+  "toLocaleUpperCase",
+  "toLowerCase",
+  "toUpperCase",
+  "trim",
+  "trimEnd",
+  "trimStart",
+  // Numbers
+  "toExponential",
+  "toFixed",
+  "toLocaleString",
+  "toPrecision",
+  "toString",
+  // Dates
+  "getDate",
+  "getDay",
+  "getFullYear",
+  "getHours",
+  "getMinutes",
+  "getMonth",
+  "getSeconds",
+  "getTime",
+  "toDateString",
+  "toISOString",
+  "toLocaleDateString",
+  "toLocaleTimeString",
+  "valueOf",
+  // Maps and sets
+  "get",
+  "has",
+]);
+
+/** Members that lead to constructors, and so to `Function` */
+const DENIED_MEMBERS = new Set([
+  "constructor",
+  "prototype",
+  "__proto__",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+]);
+
+type Operator = (a: unknown, b: unknown) => unknown;
+const numeric = (operator: (a: number, b: number) => unknown) => operator as Operator;
+
+/** Binary operators by their token text */
+const BINARY_OPERATORS: Partial<Record<string, Operator>> = {
+  "+": numeric((a, b) => a + b),
+  "-": numeric((a, b) => a - b),
+  "*": numeric((a, b) => a * b),
+  "/": numeric((a, b) => a / b),
+  "%": numeric((a, b) => a % b),
+  "**": numeric((a, b) => a ** b),
+  "===": (a, b) => a === b,
+  "!==": (a, b) => a !== b,
+  "==": (a, b) => a == b,
+  "!=": (a, b) => a != b,
+  "<": numeric((a, b) => a < b),
+  "<=": numeric((a, b) => a <= b),
+  ">": numeric((a, b) => a > b),
+  ">=": numeric((a, b) => a >= b),
+  "&": numeric((a, b) => a & b),
+  "|": numeric((a, b) => a | b),
+  "^": numeric((a, b) => a ^ b),
+  "<<": numeric((a, b) => a << b),
+  ">>": numeric((a, b) => a >> b),
+  ">>>": numeric((a, b) => a >>> b),
+  "in": (a, b) => (a as PropertyKey) in (b as object),
+};
+
+const PREFIX_OPERATORS: Partial<Record<string, (a: unknown) => unknown>> = {
+  "!": (a) => !a,
+  "-": (a) => -(a as number),
+  "+": (a) => +(a as number),
+  "~": (a) => ~(a as number),
+};
+
+/** How the syntax interpret mode rejects is named in errors */
+function unsupported(kind: ts.SyntaxKind): string {
+  const ts = typescript();
+  switch (kind) {
+    case ts.SyntaxKind.NewExpression:
+      return "`new`";
+    case ts.SyntaxKind.FunctionExpression:
+      return "function expressions";
+    case ts.SyntaxKind.ClassExpression:
+      return "classes";
+    case ts.SyntaxKind.TaggedTemplateExpression:
+      return "tagged templates";
+    case ts.SyntaxKind.ThisKeyword:
+      return "`this`";
+    case ts.SyntaxKind.AwaitExpression:
+      return "`await`";
+    case ts.SyntaxKind.YieldExpression:
+      return "`yield`";
+    case ts.SyntaxKind.DeleteExpression:
+      return "`delete`";
+    case ts.SyntaxKind.PostfixUnaryExpression:
+      return "increments and decrements";
+    case ts.SyntaxKind.SuperKeyword:
+      return "`super`";
+    default:
+      return "this syntax";
+  }
+}
+
+/** A compiled expression */
+type Evaluate = (scope: Scope) => unknown;
+
+/** The value of an optional chain cut short, as in `a?.b.c` with a nullish `a` */
+const SHORT_CIRCUIT = Symbol("short-circuit");
+
+/** Variables in scope, looked up through enclosing scopes */
+class Scope {
+  private readonly vars: Map<string, unknown>;
+  private readonly parent: Scope | undefined;
+
+  constructor(vars: Map<string, unknown>, parent?: Scope) {
+    this.vars = vars;
+    this.parent = parent;
+  }
+
+  get(name: string): unknown {
+    for (let scope: Scope | undefined = this; scope; scope = scope.parent) {
+      if (scope.vars.has(name)) return scope.vars.get(name);
+    }
+    throw new ReferenceError(`${name} is not defined`);
+  }
+
+  with(vars: Iterable<[string, unknown]>): Scope {
+    return new Scope(new Map(vars), this);
+  }
+}
+
+/** A body segment after compiling, nested by block */
+type BodyNode =
+  | { type: "text"; text: string; range: SourceRange; filePath: string | undefined }
+  | { type: "value"; value: Evaluate; expression: ExpressionSegment; filePath: string | undefined }
+  | { type: "if"; branches: { condition: Evaluate | undefined; body: BodyNode[] }[] }
+  | { type: "each"; items: (scope: Scope) => unknown[]; item: string; index: string | undefined; body: BodyNode[] }
+  | { type: "with"; value: Evaluate; name: string; body: BodyNode[] };
+
+/**
+ * Render functions for `compile(parsed, { mode: "interpret" })`, which
+ * evaluate the body's expressions by walking their syntax trees instead of
+ * compiling them with `new Function`, for runtimes that forbid it.
+ *
+ * Expressions are limited to a subset of JavaScript without side effects:
+ * literals, template literals, arrays and objects, member access, arrow
+ * functions with an expression body, operators other than assignment, and
+ * calls of helpers, partials, arrow functions, a few globals (see
+ * {@link GLOBALS}) and the methods in {@link METHODS}. Anything else throws
+ * a {@link TypemarkParseError} pointing at it, here rather than on render,
+ * except functions read as values that expressions may not hold, which
+ * throw when rendering (see {@link ExpressionCompiler}).
+ *
+ * `scope` holds the helpers and partials by name. Rendering matches the
+ * functions `renderFunctions()` emits, traces included.
+ */
+export function interpretRenderFunctions(
+  parsed: ParsedTemplate,
+  scope: Record<string, unknown>,
+  options: InterpretOptions,
+): RenderFunctions {
+  const interpreter = new Interpreter(parsed, scope, options);
+  const normalize = normalizer(options.normalize) ?? ((text: string) => text);
+  const normalizeTrace = traceNormalizer(options.normalize);
+  const blocks = messageBlocks(parsed);
+
+  if (!blocks) {
+    const body = interpreter.body(trimSegments(parsed.ast.body.segments));
+    const render = (props: Props) => normalize(interpreter.render(body, interpreter.scope(props)));
+    return {
+      render,
+      renderMessages: (props) => [{ role: "user", content: render(props) }],
+      renderTrace: (props) => traced(normalizeTrace(interpreter.trace(body, interpreter.scope(props)))),
+    };
+  }
+
+  const messages = blocks.map((block) => ({ role: block.role, body: interpreter.body(block.segments) }));
+  const renderMessages = (props: Props): Message[] => {
+    const scope = interpreter.scope(props);
+    return messages.map(({ role, body }) => ({ role, content: normalize(interpreter.render(body, scope)) }));
+  };
+  const separator: TraceSegment = { type: "separator", text: "\n\n" };
+  return {
+    render: (props) => renderMessages(props).map((message) => message.content).join("\n\n"),
+    renderMessages,
+    renderTrace: (props) => {
+      const scope = interpreter.scope(props);
+      const segments = messages.map(({ body }) => normalizeTrace(interpreter.trace(body, scope)));
+      return traced(segments.flatMap((message, i) => (i === 0 ? message : [separator, ...message])));
+    },
+  };
+}
+
+class Interpreter {
+  /** Helpers, partials and globals, below the props */
+  private readonly root: Scope;
+  /** Names bound in every expression besides globals: props, helpers and partials */
+  private readonly names: Set<string>;
+  private readonly keys: string[];
+  private readonly escape: ((value: unknown) => unknown) | undefined;
+  /** The helpers, partials and the template's arrow functions, which expressions may hold */
+  private readonly functions = new WeakSet<object>();
+  private readonly parsed: ParsedTemplate;
+  private readonly options: InterpretOptions;
+
+  constructor(parsed: ParsedTemplate, scope: Record<string, unknown>, options: InterpretOptions) {
+    this.parsed = parsed;
+    this.options = options;
+    for (const value of Object.values(scope)) if (typeof value === "function") this.functions.add(value);
+    this.root = new Scope(new Map(Object.entries(GLOBALS))).with(Object.entries(scope));
+    this.keys = boundProps(parsed);
+    this.names = new Set([...Object.keys(scope), "props", ...this.keys]);
+    this.escape = valueEscaper(parsed.escape);
+  }
+
+  /** The scope a render evaluates expressions in */
+  scope(props: Props): Scope {
+    const defaults = this.parsed.defaults ?? {};
+    const vars = new Map<string, unknown>([["props", props]]);
+    for (const key of this.keys) {
+      const value = props[key];
+      vars.set(key, value === undefined && key in defaults ? defaults[key] : value);
+    }
+    return this.root.with(vars);
+  }
+
+  /** Compile body segments into a tree of blocks */
+  body(segments: BodySegment[]): BodyNode[] {
+    const root: BodyNode[] = [];
+    const open: { node: BodyNode; body: BodyNode[]; names: Set<string> }[] = [];
+    let body = root;
+    let names = this.names;
+
+    for (const segment of applyWhitespaceControl(segments)) {
+      const filePath = ("filePath" in segment && segment.filePath) || this.parsed.filePath;
+
+      switch (segment.type) {
+        case "Text":
+          body.push({ type: "text", text: renderedText(segment.value), range: segment.range, filePath });
+          break;
+        case "Expression": {
+          const expression = expressionSegment(segment);
+          body.push({ type: "value", value: this.expression(expression, names), expression, filePath });
+          break;
+        }
+        case "If": {
+          const node: BodyNode = { type: "if", branches: [{ condition: this.expression(segment, names), body: [] }] };
+          body.push(node);
+          open.push({ node, body, names });
+          body = node.branches[0]!.body;
+          break;
+        }
+        case "Else": {
+          const { node } = open[open.length - 1]!;
+          if (node.type !== "if") break;
+          const condition =
+            segment.code === undefined
+              ? undefined
+              : this.expression({ ...segment, code: segment.code, codeRange: segment.codeRange! }, names);
+          node.branches.push({ condition, body: [] });
+          body = node.branches[node.branches.length - 1]!.body;
+          break;
+        }
+        case "Each": {
+          const { item, index } = segment;
+          const iterable = this.expression(segment, names);
+          const expression = expressionSegment(segment);
+          const items = (scope: Scope) =>
+            this.guard(expression, () => Array.from(iterable(scope) as Iterable<unknown>));
+          const node: BodyNode = { type: "each", items, item, index, body: [] };
+          body.push(node);
+          open.push({ node, body, names });
+          body = node.body;
+          names = new Set([...names, item, ...(index ? [index] : [])]);
+          break;
+        }
+        case "With": {
+          const node: BodyNode = { type: "with", value: this.expression(segment, names), name: segment.name, body: [] };
+          body.push(node);
+          open.push({ node, body, names });
+          body = node.body;
+          names = new Set([...names, segment.name]);
+          break;
+        }
+        case "BlockEnd":
+          ({ body, names } = open.pop()!);
+          break;
+      }
+    }
+    return root;
+  }
+
+  render(nodes: BodyNode[], scope: Scope): string {
+    let out = "";
+    for (const node of nodes) {
+      switch (node.type) {
+        case "text":
+          out += node.text;
+          break;
+        case "value":
+          out += this.guard(node.expression, () => {
+            const value = node.value(scope);
+            return `${this.escape ? this.escape(value) : value}`;
+          });
+          break;
+        default:
+          out += this.block(node, scope, (body, inner) => this.render(body, inner)).join("");
+      }
+    }
+    return out;
+  }
+
+  /** Render `nodes` as trace segments, as the `__trace` tag records them */
+  trace(nodes: BodyNode[], scope: Scope): TraceSegment[] {
+    const segments: TraceSegment[] = [];
+    // Text between two values is one segment, from the first text node to the last
+    let text: BodyNode[] = [];
+    const flush = () => {
+      const first = text[0];
+      const last = text[text.length - 1];
+      const value = text.map((node) => (node.type === "text" ? node.text : "")).join("");
+      if (first?.type === "text" && last?.type === "text" && value) {
+        const { filePath } = last;
+        segments.push({
+          type: "text",
+          text: value,
+          range: { start: first.range.start, end: last.range.end },
+          ...(filePath && { filePath }),
+        });
+      }
+      text = [];
+    };
+
+    for (const node of nodes) {
+      if (node.type === "text") {
+        text.push(node);
+        continue;
+      }
+      flush();
+      if (node.type === "value") {
+        const { filePath } = node;
+        const value = this.guard(node.expression, () => node.value(scope));
+        segments.push({
+          type: "expression",
+          text: this.guard(node.expression, () => String(this.escape ? this.escape(value) : value)),
+          value,
+          expression: node.expression.code.trim(),
+          range: node.expression.range,
+          ...(filePath && { filePath }),
+        });
+      } else {
+        segments.push(...this.block(node, scope, (body, inner) => this.trace(body, inner)).flat());
+      }
+    }
+    flush();
+    return segments;
+  }
+
+  /** The renders of a block's body: one per item for `{{#each}}` */
+  private block<T>(
+    node: Exclude<BodyNode, { type: "text" | "value" }>,
+    scope: Scope,
+    render: (body: BodyNode[], scope: Scope) => T,
+  ): T[] {
+    switch (node.type) {
+      case "if": {
+        const branch = node.branches.find(({ condition }) => !condition || condition(scope));
+        return branch ? [render(branch.body, scope)] : [];
+      }
+      case "each": {
+        const { item, index } = node;
+        return node.items(scope).map((value, i) =>
+          render(node.body, scope.with([[item, value], ...(index ? [[index, i] as [string, unknown]] : [])])),
+        );
+      }
+      case "with":
+        return [render(node.body, scope.with([[node.name, node.value(scope)]]))];
+    }
+  }
+
+  /** Run `evaluate`, passing what it throws through `renderError` */
+  private guard<T>(expression: ExpressionSegment, evaluate: () => T): T {
+    try {
+      return evaluate();
+    } catch (error) {
+      throw this.options.renderError(error, expression);
+    }
+  }
+
+  /**
+   * Compile a `${}` expression or directive's code, with `names` in scope.
+   * Errors it throws are passed through `renderError`.
+   */
+  private expression(
+    segment: Pick<ExpressionSegment, "range" | "codeRange" | "code" | "filePath">,
+    names: Set<string>,
+  ): Evaluate {
+    const ts = typescript();
+    const expression = expressionSegment(segment);
+    const { code, codeRange, filePath } = segment;
+
+    // Parenthesized so object literals and the like parse as expressions, and
+    // followed by a newline so a trailing line comment doesn't swallow the paren
+    const wrapped = `(${code}\n)`;
+    const sourceFile = ts.createSourceFile("expression.ts", wrapped, ts.ScriptTarget.Latest, true);
+    const fail = (start: number, end: number, errorCode: ParseErrorCode, reason: string): never => {
+      const at = (offset: number) => advance(codeRange.start, segment.code.slice(0, offset - 1));
+      const file = filePath ?? this.parsed.filePath;
+      throw new TypemarkParseError({
+        code: errorCode,
+        reason,
+        source: filePath && filePath !== this.parsed.filePath ? fs().readFileSync(filePath, "utf8") : this.parsed.source,
+        range: { start: at(Math.max(start, 1)), end: at(Math.min(end, code.length + 1)) },
+        ...(file && { filePath: file }),
+      });
+    };
+
+    const { diagnostics = [] } = ts.transpileModule(wrapped, { fileName: "expression.ts", reportDiagnostics: true });
+    const statement = sourceFile.statements[0];
+    if (diagnostics.length > 0 || sourceFile.statements.length !== 1 || !ts.isExpressionStatement(statement!)) {
+      const diagnostic = diagnostics[0];
+      const reason = diagnostic
+        ? ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+        : "Expected an expression";
+      const start = diagnostic?.start ?? 1;
+      return fail(start, start + (diagnostic?.length ?? code.length), "syntax-error", reason);
+    }
+
+    const compiler = new ExpressionCompiler(this.functions, (node, reason) =>
+      fail(node.getStart(sourceFile), node.end, "unsupported-expression", reason),
+    );
+    const evaluate = compiler.compile(statement.expression, names);
+    return (scope) => this.guard(expression, () => evaluate(scope));
+  }
+}
+
+function expressionSegment(
+  segment: Pick<ExpressionSegment, "range" | "codeRange" | "code" | "filePath">,
+): ExpressionSegment {
+  const { range, codeRange, code, filePath } = segment;
+  return { type: "Expression", range, codeRange, code, ...(filePath && { filePath }) };
+}
+
+/**
+ * Compiles expression syntax trees into closures over a {@link Scope}.
+ *
+ * Functions are only values when they're in `functions` or
+ * {@link BUILTIN_FUNCTIONS}: reading any other from a variable, a member
+ * or a call's result throws, so a method such as `getPrototypeOf` can't
+ * be passed as a callback to reach `Function`. Other methods are only
+ * called, by name, when they're in {@link METHODS}.
+ */
+class ExpressionCompiler {
+  private readonly functions: WeakSet<object>;
+  private readonly fail: (node: ts.Node, reason: string) => never;
+
+  constructor(functions: WeakSet<object>, fail: (node: ts.Node, reason: string) => never) {
+    this.functions = functions;
+    this.fail = fail;
+  }
+
+  /** `value`, unless it's a function expressions may not hold, read by the code `text` */
+  private allowed(value: unknown, text: string): unknown {
+    if (typeof value !== "function" || BUILTIN_FUNCTIONS.has(value) || this.functions.has(value)) return value;
+    throw new TypeError(`\`${text}\` is a function interpret mode doesn't allow as a value`);
+  }
+
+  /** Compile `node`, with `names` bound besides globals */
+  compile(node: ts.Expression, names: Set<string>): Evaluate {
+    const ts = typescript();
+    if (isChainLink(node)) {
+      const chain = this.chain(node, names);
+      return (scope) => {
+        const value = chain(scope);
+        return value === SHORT_CIRCUIT ? undefined : value;
+      };
+    }
+
+    if (
+      ts.isParenthesizedExpression(node) ||
+      ts.isAsExpression(node) ||
+      ts.isSatisfiesExpression(node) ||
+      ts.isTypeAssertionExpression(node)
+    ) {
+      return this.compile(node.expression, names);
+    }
+
+    if (ts.isNumericLiteral(node)) return constant(Number(node.text));
+    if (ts.isBigIntLiteral(node)) return constant(BigInt(node.text.slice(0, -1)));
+    if (ts.isStringLiteral(node)) return constant(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return constant(true);
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return constant(false);
+    if (node.kind === ts.SyntaxKind.NullKeyword) return constant(null);
+    if (ts.isRegularExpressionLiteral(node)) {
+      const end = node.text.lastIndexOf("/");
+      const [source, flags] = [node.text.slice(1, end), node.text.slice(end + 1)];
+      return () => new RegExp(source, flags);
+    }
+
+    if (ts.isNoSubstitutionTemplateLiteral(node)) return constant(templateQuasis(node)[0]!);
+    if (ts.isTemplateExpression(node)) {
+      const [head, ...quasis] = templateQuasis(node);
+      const values = node.templateSpans.map((span) => this.compile(span.expression, names));
+      return (scope) => {
+        let out = head!;
+        values.forEach((value, i) => (out += `${value(scope)}${quasis[i]}`));
+        return out;
+      };
+    }
+
+    if (ts.isIdentifier(node)) return this.identifier(node, names);
+    if (ts.isArrayLiteralExpression(node)) {
+      const items = this.list(node.elements, names);
+      return (scope) => items(scope);
+    }
+    if (ts.isObjectLiteralExpression(node)) return this.object(node, names);
+    if (ts.isArrowFunction(node)) return this.arrowFunction(node, names);
+
+    if (ts.isPrefixUnaryExpression(node)) {
+      const operator = PREFIX_OPERATORS[ts.tokenToString(node.operator)!];
+      if (!operator) return this.fail(node, "Interpret mode doesn't support increments and decrements");
+      const operand = this.compile(node.operand, names);
+      return (scope) => operator(operand(scope));
+    }
+    if (ts.isTypeOfExpression(node)) {
+      // `typeof` of an undeclared name is "undefined", as in JavaScript
+      const { expression } = node;
+      if (ts.isIdentifier(expression) && !names.has(expression.text) && !(expression.text in GLOBALS)) {
+        return constant("undefined");
+      }
+      const operand = this.compile(expression, names);
+      return (scope) => typeof operand(scope);
+    }
+    if (ts.isVoidExpression(node)) {
+      const operand = this.compile(node.expression, names);
+      return (scope) => void operand(scope);
+    }
+
+    if (ts.isBinaryExpression(node)) return this.binary(node, names);
+    if (ts.isConditionalExpression(node)) {
+      const condition = this.compile(node.condition, names);
+      const whenTrue = this.compile(node.whenTrue, names);
+      const whenFalse = this.compile(node.whenFalse, names);
+      return (scope) => (condition(scope) ? whenTrue(scope) : whenFalse(scope));
+    }
+
+    return this.fail(node, `Interpret mode doesn't support ${unsupported(node.kind)}`);
+  }
+
+  private identifier(node: ts.Identifier, names: Set<string>): Evaluate {
+    const name = node.text;
+    if (names.has(name)) return (scope) => this.allowed(scope.get(name), name);
+    if (name in GLOBAL_MEMBERS) return this.fail(node, namespaceOnly(name));
+    if (name in GLOBALS) return constant(GLOBALS[name]);
+    return this.fail(
+      node,
+      name in globalThis
+        ? `Interpret mode doesn't provide the global \`${name}\`; pass it in as a prop or helper`
+        : `\`${name}\` isn't a prop, helper or partial`,
+    );
+  }
+
+  /** Array elements or call arguments, spreading spread elements */
+  private list(elements: ts.NodeArray<ts.Expression>, names: Set<string>): (scope: Scope) => unknown[] {
+    const ts = typescript();
+    const items = elements.map((element) => {
+      if (ts.isSpreadElement(element)) {
+        const spread = this.compile(element.expression, names);
+        return (scope: Scope) => [...(spread(scope) as Iterable<unknown>)];
+      }
+      if (ts.isOmittedExpression(element)) return () => [undefined];
+      const item = this.compile(element, names);
+      return (scope: Scope) => [item(scope)];
+    });
+    return (scope) => items.flatMap((item) => item(scope));
+  }
+
+  private object(node: ts.ObjectLiteralExpression, names: Set<string>): Evaluate {
+    const ts = typescript();
+    const properties = node.properties.map((property): ((scope: Scope, object: Members) => void) => {
+      if (ts.isSpreadAssignment(property)) {
+        const spread = this.compile(property.expression, names);
+        return (scope, object) => void Object.assign(object, spread(scope));
+      }
+      if (ts.isShorthandPropertyAssignment(property)) {
+        const value = this.identifier(property.name, names);
+        const key = property.name.text;
+        return (scope, object) => void (object[key] = value(scope));
+      }
+      if (!ts.isPropertyAssignment(property)) {
+        return this.fail(property, "Interpret mode doesn't support methods or accessors in object literals");
+      }
+
+      const value = this.compile(property.initializer, names);
+      const { name } = property;
+      if (ts.isComputedPropertyName(name)) {
+        const key = this.compile(name.expression, names);
+        return (scope, object) => {
+          object[member(key(scope))] = value(scope);
+        };
+      }
+      if (ts.isPrivateIdentifier(name)) return this.fail(name, "Interpret mode doesn't support private names");
+      const key = name.text;
+      if (key === "__proto__") return this.fail(name, "Interpret mode doesn't allow setting `__proto__`");
+      return (scope, object) => void (object[key] = value(scope));
+    });
+
+    return (scope) => {
+      const object: Members = {};
+      for (const property of properties) property(scope, object);
+      return object;
+    };
+  }
+
+  private arrowFunction(node: ts.ArrowFunction, names: Set<string>): Evaluate {
+    const ts = typescript();
+    if (ts.isBlock(node.body)) {
+      return this.fail(node.body, "Interpret mode doesn't support arrow functions with a block body");
+    }
+
+    const inner = new Set(names);
+    const params = node.parameters.map((param) => {
+      const bind = this.binding(param.name, inner);
+      const initializer = param.initializer && this.compile(param.initializer, inner);
+      return { bind, initializer, rest: param.dotDotDotToken !== undefined };
+    });
+    const body = this.compile(node.body, inner);
+
+    return (scope) => {
+      const fn = (...args: unknown[]) => {
+        const vars = new Map<string, unknown>();
+        const local = new Scope(vars, scope);
+        params.forEach(({ bind, initializer, rest }, i) => {
+          let value = rest ? args.slice(i) : args[i];
+          if (value === undefined && initializer) value = initializer(local);
+          bind(value, local, vars);
+        });
+        return body(local);
+      };
+      this.functions.add(fn);
+      return fn;
+    };
+  }
+
+  /**
+   * Compile a parameter's name, adding the names it binds to `names`. The
+   * result assigns a value to them in `vars`, the variables of `scope`.
+   */
+  private binding(
+    name: ts.BindingName,
+    names: Set<string>,
+  ): (value: unknown, scope: Scope, vars: Map<string, unknown>) => void {
+    const ts = typescript();
+    if (ts.isIdentifier(name)) {
+      names.add(name.text);
+      return (value, _, vars) => void vars.set(name.text, value);
+    }
+
+    const elements = name.elements.map((element) => {
+      if (ts.isOmittedExpression(element)) return undefined;
+      const key = element.propertyName ?? element.name;
+      if (!ts.isIdentifier(key) && !ts.isStringLiteral(key) && !ts.isNumericLiteral(key)) {
+        return this.fail(key, "Interpret mode doesn't support computed names in parameters");
+      }
+      if (DENIED_MEMBERS.has(key.text)) return this.fail(key, `Interpret mode doesn't allow accessing \`${key.text}\``);
+      return {
+        key: key.text,
+        bind: this.binding(element.name, names),
+        initializer: element.initializer && this.compile(element.initializer, names),
+        rest: element.dotDotDotToken !== undefined,
+      };
+    });
+
+    const array = ts.isArrayBindingPattern(name);
+    return (value, scope, vars) => {
+      const items = array ? [...(value as Iterable<unknown>)] : undefined;
+      const rest = array ? undefined : { ...(value as object) } as Props;
+      elements.forEach((element, i) => {
+        if (!element) return;
+        let item: unknown;
+        if (items) {
+          item = element.rest ? items.slice(i) : items[i];
+        } else if (element.rest) {
+          item = rest;
+        } else {
+          item = (value as Props)[element.key];
+          delete rest![element.key];
+        }
+        if (item === undefined && element.initializer) item = element.initializer(scope);
+        element.bind(item, scope, vars);
+      });
+    };
+  }
+
+  private binary(node: ts.BinaryExpression, names: Set<string>): Evaluate {
+    const ts = typescript();
+    const kind = node.operatorToken.kind;
+    if (kind >= ts.SyntaxKind.FirstAssignment && kind <= ts.SyntaxKind.LastAssignment) {
+      return this.fail(node, "Interpret mode doesn't support assignments");
+    }
+
+    const left = this.compile(node.left, names);
+    const right = this.compile(node.right, names);
+    switch (kind) {
+      case ts.SyntaxKind.AmpersandAmpersandToken:
+        return (scope) => left(scope) && right(scope);
+      case ts.SyntaxKind.BarBarToken:
+        return (scope) => left(scope) || right(scope);
+      case ts.SyntaxKind.QuestionQuestionToken:
+        return (scope) => left(scope) ?? right(scope);
+    }
+
+    const operator = BINARY_OPERATORS[ts.tokenToString(kind)!];
+    if (!operator) {
+      return this.fail(node.operatorToken, `Interpret mode doesn't support \`${node.operatorToken.getText()}\``);
+    }
+    return (scope) => operator(left(scope), right(scope));
+  }
+
+  /**
+   * Compile a link of a member access and call chain. The result is
+   * {@link SHORT_CIRCUIT} when an optional link cut the chain short.
+   */
+  private chain(node: ts.Expression, names: Set<string>): Evaluate {
+    const ts = typescript();
+    if (ts.isNonNullExpression(node)) return this.chain(node.expression, names);
+    if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      const access = this.member(node, names);
+      const text = node.getText();
+      return (scope) => {
+        const value = access(scope);
+        return value === SHORT_CIRCUIT ? value : this.allowed(value.object[value.key], text);
+      };
+    }
+    if (ts.isCallExpression(node)) return this.call(node, names);
+    return this.compile(node, names);
+  }
+
+  /**
+   * Compile the object and key of a member access, checking the key is one
+   * expressions may use: statically when it's a name, and when evaluated
+   * when it's computed. A namespace's members are only named.
+   */
+  private member(
+    node: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+    names: Set<string>,
+  ): (scope: Scope) => { object: Members; key: PropertyKey } | typeof SHORT_CIRCUIT {
+    const ts = typescript();
+    const namespace = namespaceName(node.expression, names);
+    if (namespace && !ts.isPropertyAccessExpression(node)) return this.fail(node, namespaceOnly(namespace));
+    const object = namespace ? constant(GLOBALS[namespace]) : this.chain(node.expression, names);
+    const optional = node.questionDotToken !== undefined;
+    let key: (scope: Scope) => PropertyKey;
+
+    if (ts.isPropertyAccessExpression(node)) {
+      if (ts.isPrivateIdentifier(node.name)) {
+        return this.fail(node.name, "Interpret mode doesn't support private names");
+      }
+      const name = node.name.text;
+      if (DENIED_MEMBERS.has(name)) return this.fail(node.name, `Interpret mode doesn't allow accessing \`${name}\``);
+
+      if (namespace && !GLOBAL_MEMBERS[namespace]!.has(name)) {
+        return this.fail(node, `Interpret mode doesn't provide \`${namespace}.${name}\``);
+      }
+      key = () => name;
+    } else {
+      const computed = this.compile(node.argumentExpression, names);
+      key = (scope) => member(computed(scope));
+    }
+
+    return (scope) => {
+      const value = object(scope);
+      if (value === SHORT_CIRCUIT || (optional && value == null)) return SHORT_CIRCUIT;
+      return { object: value as Members, key: key(scope) };
+    };
+  }
+
+  /**
+   * Compile a call. Methods are called with their object as `this`, and only
+   * those in {@link METHODS} and of the namespaces in {@link GLOBAL_MEMBERS}.
+   * Namespaces that are functions, such as `String`, can be called too.
+   */
+  private call(node: ts.CallExpression, names: Set<string>): Evaluate {
+    const ts = typescript();
+    const args = this.list(node.arguments, names);
+    const optional = node.questionDotToken !== undefined;
+    let callee: ts.Expression = node.expression;
+    while (ts.isParenthesizedExpression(callee) || ts.isNonNullExpression(callee)) callee = callee.expression;
+    const text = callee.getText();
+
+    const call = (fn: unknown, self: unknown, scope: Scope) => {
+      if (optional && fn == null) return SHORT_CIRCUIT;
+      if (typeof fn !== "function") throw new TypeError(`${text} is not a function`);
+      return this.allowed(fn.apply(self, args(scope)), `${text}()`);
+    };
+
+    if (ts.isPropertyAccessExpression(callee) || ts.isElementAccessExpression(callee)) {
+      // Members of namespaces are checked by `member()`
+      const access = this.member(callee, names);
+      const namespace = namespaceName(callee.expression, names);
+      if (ts.isPropertyAccessExpression(callee) && !namespace) {
+        const name = callee.name.text;
+        if (!METHODS.has(name)) return this.fail(callee.name, `Interpret mode doesn't support calling \`.${name}()\``);
+      }
+      return (scope) => {
+        const value = access(scope);
+        if (value === SHORT_CIRCUIT) return value;
+        if (!namespace && (typeof value.key !== "string" || !METHODS.has(value.key))) {
+          throw new TypeError(`Interpret mode doesn't support calling \`.${String(value.key)}()\``);
+        }
+        return call(value.object[value.key], value.object, scope);
+      };
+    }
+
+    if (!ts.isIdentifier(callee)) {
+      return this.fail(callee, "Interpret mode only supports calling helpers, partials, arrow functions and methods");
+    }
+    const namespace = namespaceName(callee, names);
+    const fn = namespace ? constant(GLOBALS[namespace]) : this.identifier(callee, names);
+    return (scope) => call(fn(scope), undefined, scope);
+  }
+}
+
+function constant(value: unknown): Evaluate {
+  return () => value;
+}
+
+/** Whether `node` is a member access or call, which may be part of an optional chain */
+function isChainLink(node: ts.Expression): boolean {
+  const ts = typescript();
+  return (
+    ts.isPropertyAccessExpression(node) ||
+    ts.isElementAccessExpression(node) ||
+    ts.isCallExpression(node) ||
+    ts.isNonNullExpression(node)
+  );
+}
+
+/**
+ * The global namespace in {@link GLOBAL_MEMBERS} that `node` names, unless
+ * a prop, helper or variable shadows it
+ */
+function namespaceName(node: ts.Expression, names: Set<string>): string | undefined {
+  const ts = typescript();
+  return ts.isIdentifier(node) && !names.has(node.text) && node.text in GLOBAL_MEMBERS ? node.text : undefined;
+}
+
+/** Why the namespace `name` can't be used other than before a member name */
+function namespaceOnly(name: string): string {
+  const example = [...GLOBAL_MEMBERS[name]!].find((member) => typeof (GLOBALS[name] as Members)[member] === "function");
+  return `Interpret mode only supports \`${name}\` before a member name, as in \`${name}.${example}\``;
+}
+
+/** A computed member key, checked against {@link DENIED_MEMBERS} */
+function member(key: unknown): PropertyKey {
+  const name = typeof key === "symbol" ? key : String(key);
+  if (typeof name === "string" && DENIED_MEMBERS.has(name)) {
+    throw new TypeError(`Interpret mode doesn't allow accessing \`${name}\``);
+  }
+  return name;
+}
@@ -0,0 +1,234 @@
+import { dirname, relative, resolve, sep } from "node:path";
+import { bodySource, trimSegments } from "./body.ts";
+import { TypemarkParseError, type ParseErrorCode } from "./errors.ts";
+import { fs } from "./lazy.ts";
+import { partialPath } from "./partials.ts";
+import { parse } from "./parser.ts";
+import type {
+  BodySegment,
+  ParsedTemplate,
+  PartialImport,
+  SectionSegment,
+  SourceRange,
+} from "./types.ts";
+
+/**
+ * Absolute path of the layout declared by `parsed`. Throws if the template
+ * has no file path to resolve against.
+ */
+export function layoutPath(parsed: ParsedTemplate): string {
+  const { layout } = parsed;
+  if (!layout) throw new Error("Template does not declare a layout");
+
+  if (!parsed.filePath) {
+    throw layoutError(
+      parsed,
+      layout.range,
+      "layout-not-found",
+      `Cannot resolve layout "${layout.specifier}" without a file path; pass \`filePath\` to parse()`,
+    );
+  }
+  return resolve(dirname(parsed.filePath), layout.specifier);
+}
+
+/**
+ * Read and parse the chain of layouts `child` renders into, nearest first.
+ * Throws a {@link TypemarkParseError} at the `layout` declaration when a
+ * layout is missing or the chain loops back on itself.
+ */
+export function resolveLayoutChain(child: ParsedTemplate): ParsedTemplate[] {
+  const chain: ParsedTemplate[] = [];
+  const seen = child.filePath ? [resolve(child.filePath)] : [];
+  let current = child;
+
+  while (current.layout) {
+    const path = layoutPath(current);
+
+    if (seen.includes(path)) {
+      const cycle = [...seen.slice(seen.indexOf(path)), path].map((p) => relative(".", p));
+      throw layoutError(
+        current,
+        current.layout.range,
+        "layout-cycle",
+        `Circular layout: ${cycle.join(" -> ")}`,
+      );
+    }
+
+    let source: string;
+    try {
+      source = fs().readFileSync(path, "utf8");
+    } catch {
+      throw layoutError(
+        current,
+        current.layout.range,
+        "layout-not-found",
+        `Cannot find layout "${current.layout.specifier}"`,
+      );
+    }
+
+    current = parse(source, { filePath: path });
+    seen.push(path);
+    chain.push(current);
+  }
+
+  return chain;
+}
+
+/**
+ * Merge a child template into its layout chain, producing a single template
+ * that renders the layout body with each `@slot` replaced by the child's
+ * matching `@section`. Templates without a layout are returned unchanged.
+ *
+ * The merged template's Props keys and partials are the union of the child's
+ * and every layout's. Its body segments come from several files: text and
+ * expressions from a layout carry that layout's `filePath`.
+ */
+export function applyLayout(child: ParsedTemplate): ParsedTemplate {
+  if (!child.layout) return child;
+
+  const chain = resolveLayoutChain(child);
+
+  // Fill layouts from the outermost in: each layout is itself a child of the
+  // next one up the chain
+  let merged = chain[chain.length - 1]!;
+  for (let i = chain.length - 2; i >= -1; i--) {
+    merged = merge(i === -1 ? child : chain[i]!, merged);
+  }
+
+  return merged;
+}
+
+function merge(child: ParsedTemplate, layout: ParsedTemplate): ParsedTemplate {
+  const slots = new Set<string>();
+  for (const segment of layout.ast.body.segments) {
+    if (segment.type === "Slot") slots.add(segment.name);
+  }
+
+  const sections = splitSections(child, slots);
+  const segments = layout.ast.body.segments.flatMap((segment): BodySegment[] => {
+    if (segment.type === "Slot") return sections.get(segment.name) ?? [];
+    // Remember which file the layout's own content came from
+    switch (segment.type) {
+      case "Section":
+      case "Message":
+      case "MessageEnd":
+      case "BlockEnd":
+        return [segment];
+      default:
+        return segment.filePath ? [segment] : [{ ...segment, filePath: layout.filePath }];
+    }
+  });
+
+  return {
+    ...child,
+    propKeys: [...new Set([...layout.propKeys, ...child.propKeys])],
+    partials: mergePartials(child, layout),
+    layout: undefined,
+    ...((layout.meta || child.meta) && { meta: { ...layout.meta, ...child.meta } }),
+    ...((layout.defaults || child.defaults) && { defaults: { ...layout.defaults, ...child.defaults } }),
+    ...(layout.maxTokens !== undefined && { maxTokens: child.maxTokens ?? layout.maxTokens }),
+    ...(layout.truncation && { truncation: mergeRules(child.truncation, layout.truncation) }),
+    ...(layout.redaction && { redaction: mergeRules(child.redaction, layout.redaction) }),
+    ...(layout.escape && { escape: child.escape ?? layout.escape }),
+    body: bodySource(segments),
+    ast: { ...child.ast, body: { ...child.ast.body, segments } },
+  };
+}
+
+/**
+ * Group the child's body segments by section. Content before the first
+ * `@section` fills the `default` slot. Leading and trailing blank lines of
+ * each section are dropped so the layout controls spacing.
+ */
+function splitSections(child: ParsedTemplate, slots: Set<string>): Map<string, BodySegment[]> {
+  const sections = new Map<string, BodySegment[]>([["default", []]]);
+  let current = sections.get("default")!;
+
+  for (const segment of child.ast.body.segments) {
+    if (segment.type === "Section") {
+      assertSlot(child, segment, slots);
+      current = sections.get(segment.name) ?? [];
+      sections.set(segment.name, current);
+      continue;
+    }
+    current.push(segment);
+  }
+
+  const preamble = sections.get("default")!;
+  const hasContent = preamble.some((s) => s.type !== "Text" || s.value.trim() !== "");
+  if (hasContent && !slots.has("default")) {
+    const first = preamble.find((s) => s.type !== "Text" || s.value.trim() !== "")!;
+    throw layoutError(
+      child,
+      first.range,
+      "unknown-slot",
+      "The layout has no default `@slot`; put this content under an `@section`",
+    );
+  }
+
+  for (const [name, segments] of sections) {
+    sections.set(name, trimSegments(segments));
+  }
+  return sections;
+}
+
+function assertSlot(child: ParsedTemplate, section: SectionSegment, slots: Set<string>): void {
+  if (slots.has(section.name)) return;
+
+  const available = [...slots].join(", ") || "none";
+  throw layoutError(
+    child,
+    section.range,
+    "unknown-slot",
+    `The layout "${child.layout!.specifier}" has no slot named "${section.name}" (available: ${available})`,
+  );
+}
+
+/** The layout's rules for props, overridden by the child's for the same prop */
+function mergeRules<T extends { prop: string }>(own: T[] = [], layout: T[]): T[] {
+  return [...own, ...layout.filter((rule) => !own.some((r) => r.prop === rule.prop))];
+}
+
+/**
+ * Combine the child's partials with the layout's, rewriting the layout's
+ * specifiers so they resolve from the child's directory.
+ */
+function mergePartials(child: ParsedTemplate, layout: ParsedTemplate): PartialImport[] {
+  const partials = [...child.partials];
+
+  for (const partial of layout.partials) {
+    const path = partialPath(layout, partial);
+    const existing = partials.find((p) => p.name === partial.name);
+
+    if (existing) {
+      if (partialPath(child, existing) === path) continue;
+      throw layoutError(
+        child,
+        existing.range,
+        "partial-conflict",
+        `Partial \`${partial.name}\` is also imported by the layout "${child.layout!.specifier}" from a different file`,
+      );
+    }
+
+    let specifier = relative(dirname(child.filePath!), path).split(sep).join("/");
+    if (!specifier.startsWith(".")) specifier = `./${specifier}`;
+    partials.push({ ...partial, specifier });
+  }
+
+  return partials;
+}
+
+function layoutError(
+  parsed: ParsedTemplate,
+  range: SourceRange,
+  code: ParseErrorCode,
+  reason: string,
+): TypemarkParseError {
+  return new TypemarkParseError({
+    code,
+    reason,
+    source: parsed.source,
+    range,
+    filePath: parsed.filePath,
+  });
+}
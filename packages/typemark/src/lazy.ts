@@ -0,0 +1,34 @@
+import type ts from "typescript";
+
+/**
+ * Node's file system and module APIs and the TypeScript compiler, loaded the
+ * first time they're used rather than when Typemark is imported. Importing
+ * `compile()` then costs neither, and runtimes without them can still import
+ * it, as long as what they render doesn't need them.
+ */
+
+/** The Node built-in module `id`, or an error naming it when the runtime has no such module */
+function builtin<T>(id: string): T {
+  const module = globalThis.process?.getBuiltinModule?.(id);
+  if (!module) throw new Error(`Typemark needs the \`${id}\` module, which this runtime doesn't provide`);
+  return module as T;
+}
+
+/** `node:fs` */
+export function fs(): typeof import("node:fs") {
+  return builtin("node:fs");
+}
+
+let require: NodeJS.Require | undefined;
+
+/** A `require()` resolving from this package, for helpers and tokenizer modules */
+export function nodeRequire(): NodeJS.Require {
+  return (require ??= builtin<typeof import("node:module")>("node:module").createRequire(import.meta.url));
+}
+
+let typescriptModule: typeof ts | undefined;
+
+/** The TypeScript compiler API, a peer dependency */
+export function typescript(): typeof ts {
+  return (typescriptModule ??= nodeRequire()("typescript") as typeof ts);
+}
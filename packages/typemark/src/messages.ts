@@ -0,0 +1,72 @@
+import { trimSegments } from "./body.ts";
+import { TypemarkParseError } from "./errors.ts";
+import type { BodySegment, MessageRole, ParsedTemplate } from "./types.ts";
+
+export const MESSAGE_ROLES: readonly MessageRole[] = ["system", "user", "assistant"];
+
+/** The content of one `::: role` block */
+export interface MessageBlock {
+  role: MessageRole;
+  segments: BodySegment[];
+}
+
+/**
+ * Split a template body into its `::: role` message blocks, or return
+ * `undefined` for a plain-text template without any.
+ *
+ * Only whitespace may appear outside a block. Each block's leading blank
+ * lines and trailing whitespace are dropped.
+ */
+export function messageBlocks(parsed: ParsedTemplate): MessageBlock[] | undefined {
+  const { segments } = parsed.ast.body;
+  if (!segments.some((s) => s.type === "Message")) return undefined;
+
+  const blocks: MessageBlock[] = [];
+  let current: MessageBlock | undefined;
+
+  for (const segment of segments) {
+    switch (segment.type) {
+      case "Message":
+        current = { role: segment.role, segments: [] };
+        blocks.push(current);
+        break;
+      case "MessageEnd":
+        current = undefined;
+        break;
+      case "Text":
+      case "Expression":
+      case "If":
+      case "Else":
+      case "Each":
+      case "With":
+      case "BlockEnd":
+        if (current) {
+          current.segments.push(segment);
+        } else if (segment.type !== "Text" || segment.value.trim() !== "") {
+          throw new TypemarkParseError({
+            code: "content-outside-message",
+            reason: `Content outside a message block; start one with ${MESSAGE_ROLES.map((r) => `\`::: ${r}\``).join(", ")}`,
+            source: parsed.source,
+            range: segment.range,
+            filePath: parsed.filePath,
+          });
+        }
+        break;
+      default:
+        current?.segments.push(segment);
+    }
+  }
+
+  return blocks.map((block) => ({ ...block, segments: trimSegments(block.segments) }));
+}
+
+/** The roles a chat template's messages can have, in order of appearance */
+export function messageRoles(templates: ParsedTemplate[]): MessageRole[] {
+  const roles = new Set<MessageRole>();
+  for (const template of templates) {
+    for (const segment of template.ast.body.segments) {
+      if (segment.type === "Message") roles.add(segment.role);
+    }
+  }
+  return [...roles];
+}
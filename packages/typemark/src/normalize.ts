@@ -0,0 +1,36 @@
+/**
+ * Post-render cleanup of the rendered text and each message's content,
+ * turned on with `normalize: true` or these options
+ */
+export interface NormalizeOptions {
+  /** Collapse runs of three or more newlines into a single blank line. Default: true */
+  collapseBlankLines?: boolean;
+  /** Strip spaces and tabs at the end of each line. Default: true */
+  trimTrailingSpaces?: boolean;
+}
+
+/**
+ * A `__normalize(text)` function applying `options`, or undefined when
+ * there's nothing to apply. Compiled templates, emitted modules and
+ * interpreted templates all use it, so they normalize identically.
+ */
+export function normalizer(options: NormalizeOptions | boolean = false): ((text: string) => string) | undefined {
+  const steps = normalizeSteps(options);
+  if (steps.length === 0) return undefined;
+  return (text) => steps.reduce((out, [pattern, replacement]) => out.replace(pattern, replacement), text);
+}
+
+/**
+ * The replacements `options` turn on, as a pattern and replacement text.
+ * Each replacement is a prefix of what it matches, so normalizing only ever
+ * deletes text.
+ */
+export function normalizeSteps(options: NormalizeOptions | boolean = false): [pattern: RegExp, replacement: string][] {
+  if (options === false) return [];
+
+  const { trimTrailingSpaces, collapseBlankLines } = options === true ? {} : options;
+  const steps: [RegExp, string][] = [];
+  if (trimTrailingSpaces !== false) steps.push([/[ \t]+$/gm, ""]);
+  if (collapseBlankLines !== false) steps.push([/\n{3,}/g, "\n\n"]);
+  return steps;
+}
@@ -0,0 +1,28 @@
+/** A ```` ```json ```` or untagged fenced block's content */
+const FENCE = /^[ \t]*(`{3,}|~{3,})[ \t]*(?:json5?|jsonc)?[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*\1[ \t]*$/gim;
+
+/**
+ * The JSON value in a model response, or why there isn't one. Fenced
+ * `json` or untagged blocks are tried first, in order, then the whole
+ * response, then the span from its first `{` or `[` to the last `}` or `]`,
+ * which skips prose around an unfenced object.
+ */
+export function extractJson(text: string): { value: unknown } | { error: string } {
+  const fenced = [...text.matchAll(FENCE)].map((match) => match[2]!);
+  const candidates = [...fenced, text.trim()];
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+  const errors: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate) };
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+  if (candidates.length === 1) return { error: "no JSON found" };
+  // Why the likeliest candidate failed, not the prose around it
+  return { error: `invalid JSON (${fenced.length > 0 ? errors[0] : errors.at(-1)})` };
+}
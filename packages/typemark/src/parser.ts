@@ -1,7 +1,25 @@
-import type { ParsedTemplate } from "./types.ts";
+import { throwParseError, type ParseContext } from "./errors.ts";
+import { parseFrontmatter } from "./frontmatter.ts";
+import { MESSAGE_ROLES, messageBlocks } from "./messages.ts";
+import { LineIndex } from "./source.ts";
+import type {
+  BlockKind,
+  BodyNode,
+  BodySegment,
+  ImportDeclaration,
+  MessageRole,
+  ParsedTemplate,
+  PartialImport,
+  TypeDeclaration,
+} from "./types.ts";
 
 const FRONTMATTER_DELIMITER = "---";
 
+export interface ParseOptions {
+  /** Path of the `.mdt` file, used in error messages and diagnostics */
+  filePath?: string;
+}
+
 /**
  * Parse a .mdt template source into its constituent parts.
  *
@@ -17,143 +35,537 @@ const FRONTMATTER_DELIMITER = "---";
  *
  * Hello, ${foo.name}!
  * ```
+ *
+ * Throws a {@link TypemarkParseError} pointing at the offending range when the
+ * source is malformed.
  */
-export function parse(source: string): ParsedTemplate {
-  const { frontmatter, body } = splitFrontmatter(source);
-  const imports = extractImports(frontmatter);
-  const preamble = extractPreamble(frontmatter);
-  const propsBody = extractPropsBody(frontmatter);
-  const propKeys = extractPropKeys(propsBody);
-
-  return { imports, preamble, propsBody, body, propKeys };
+export function parse(source: string, options: ParseOptions = {}): ParsedTemplate {
+  const ctx: ParseContext = { source, lines: new LineIndex(source), filePath: options.filePath };
+
+  const { frontmatterStart, frontmatterEnd, bodyStart, bodyEnd } = splitFrontmatter(ctx);
+  const { node: frontmatter, propsBody, propsExtends, propKeys, layout, meta, defaults, maxTokens, truncation, escape, redaction } =
+    parseFrontmatter(ctx, frontmatterStart, frontmatterEnd);
+  const body = parseBody(ctx, bodyStart, bodyEnd);
+
+  const imports = frontmatter.declarations
+    .filter((d): d is ImportDeclaration => d.type === "ImportDeclaration")
+    .map((d) => d.text);
+  const partials = frontmatter.declarations.filter(
+    (d): d is PartialImport => d.type === "PartialImport",
+  );
+  const types = frontmatter.declarations.filter(
+    (d): d is TypeDeclaration => d.type === "TypeDeclaration",
+  );
+  const preamble = types.map((d) => d.text);
+  const output = types.find((d) => d.name === "Output")?.text;
+
+  const parsed: ParsedTemplate = {
+    imports,
+    preamble,
+    propsBody,
+    propsExtends,
+    body: source.slice(bodyStart, bodyEnd),
+    propKeys,
+    partials,
+    layout,
+    ...(meta && { meta }),
+    ...(defaults && { defaults }),
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(truncation.length > 0 && { truncation }),
+    ...(escape && { escape }),
+    ...(redaction.length > 0 && { redaction }),
+    ...(output && { output }),
+    source,
+    frontmatter: source.slice(frontmatterStart, frontmatterEnd),
+    frontmatterStart,
+    bodyStart,
+    filePath: options.filePath,
+    ast: {
+      type: "Template",
+      range: ctx.lines.range(0, source.length),
+      frontmatter,
+      body,
+    },
+  };
+
+  // A child's sections land in its layout's message blocks, so they can only
+  // be checked once merged
+  if (!body.segments.some((s) => s.type === "Section")) messageBlocks(parsed);
+
+  return parsed;
 }
 
 /**
- * Split the source into frontmatter content and template body.
- * The body has its first leading newline stripped.
+ * Locate the `---` fences. The opening fence must be the first non-blank
+ * line; the closing fence is the next line consisting of `---`. Both the
+ * frontmatter and body ranges are trimmed of surrounding whitespace.
  */
-function splitFrontmatter(source: string): { frontmatter: string; body: string } {
-  const firstIndex = source.indexOf(FRONTMATTER_DELIMITER);
-  if (firstIndex === -1) {
-    throw new Error("Missing frontmatter: no opening `---` found");
+function splitFrontmatter(ctx: ParseContext): {
+  frontmatterStart: number;
+  frontmatterEnd: number;
+  bodyStart: number;
+  bodyEnd: number;
+} {
+  const { source } = ctx;
+  const openIndex = skipWhitespace(source, 0, source.length);
+
+  if (!source.startsWith(FRONTMATTER_DELIMITER, openIndex)) {
+    const lineEnd = endOfLine(source, openIndex);
+    throwParseError(
+      ctx,
+      "missing-frontmatter-open",
+      "Missing frontmatter: no opening `---` found",
+      openIndex,
+      Math.max(lineEnd, openIndex + 1),
+    );
+  }
+
+  const afterOpen = openIndex + FRONTMATTER_DELIMITER.length;
+  let closeIndex = -1;
+  let lineStart = endOfLine(source, afterOpen) + 1;
+
+  while (lineStart <= source.length) {
+    const lineEnd = endOfLine(source, lineStart);
+    if (source.slice(lineStart, lineEnd).trimEnd() === FRONTMATTER_DELIMITER) {
+      closeIndex = lineStart;
+      break;
+    }
+    lineStart = lineEnd + 1;
   }
 
-  const afterFirst = firstIndex + FRONTMATTER_DELIMITER.length;
-  const secondIndex = source.indexOf(FRONTMATTER_DELIMITER, afterFirst);
-  if (secondIndex === -1) {
-    throw new Error("Missing frontmatter: no closing `---` found");
+  if (closeIndex === -1) {
+    throwParseError(
+      ctx,
+      "missing-frontmatter-close",
+      "Missing frontmatter: no closing `---` found",
+      openIndex,
+      afterOpen,
+    );
   }
 
-  const frontmatter = source.slice(afterFirst, secondIndex).trim();
-  const body = source.slice(secondIndex + FRONTMATTER_DELIMITER.length).trim();
+  const afterClose = closeIndex + FRONTMATTER_DELIMITER.length;
 
-  return { frontmatter, body };
+  return {
+    frontmatterStart: skipWhitespace(source, afterOpen, closeIndex),
+    frontmatterEnd: trimEndIndex(source, afterOpen, closeIndex),
+    bodyStart: skipWhitespace(source, afterClose, source.length),
+    bodyEnd: trimEndIndex(source, afterClose, source.length),
+  };
 }
 
-/**
- * Extract all `import type` statements from the frontmatter.
- */
-function extractImports(frontmatter: string): string[] {
-  return frontmatter
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => line.startsWith("import type"));
-}
+/** `@slot name` and `@section name` lines, used by layouts */
+const LAYOUT_MARKER = /^@(slot|section)(?:[ \t]+([A-Za-z_][\w-]*))?[ \t]*$/;
+
+/** `::: role` lines opening a chat message, and bare `:::` lines closing one */
+const MESSAGE_MARKER = /^:::(?:[ \t]+(\S+))?[ \t]*$/;
+
+/** `{{#if`, `{{else`, `{{/each` and so on, up to the directive's arguments */
+const BLOCK_DIRECTIVE = /\{\{(#if|#each|#with|else|\/if|\/each|\/with)(?=[\s}])/y;
+
+/** The arguments of `{{#each items as item, index}}` */
+const EACH_ARGUMENTS = /^([\s\S]*)\s+as\s+([A-Za-z_$][\w$]*)(?:\s*,\s*([A-Za-z_$][\w$]*))?\s*$/;
+
+/** The arguments of `{{#with value as name}}` */
+const WITH_ARGUMENTS = /^([\s\S]*)\s+as\s+([A-Za-z_$][\w$]*)\s*$/;
 
 /**
- * Extract non-Props type declarations (interfaces and type aliases) from the
- * frontmatter. Each declaration is captured as a complete string.
+ * Split the body into literal text and `${...}` interpolation segments.
+ * Text is taken literally, backticks and backslashes included; only `\${`
+ * and `\{{` are escapes, for a literal `${` and `{{`, and they stay part of
+ * the surrounding text. Lines consisting of `@slot name` or `@section name`
+ * become layout markers, `::: role` lines become chat message markers, and
+ * `{{#if}}`, `{{#each}}` and `{{#with}}` directives become block markers.
  */
-function extractPreamble(frontmatter: string): string[] {
-  const declarations: string[] = [];
-  const pattern = /(?:interface|type)\s+(?!Props\b)(\w+)/g;
-  let match;
-
-  while ((match = pattern.exec(frontmatter)) !== null) {
-    const start = match.index;
-    // For interfaces, find the matching closing brace
-    if (frontmatter.slice(start).startsWith("interface")) {
-      const openBrace = frontmatter.indexOf("{", start);
-      if (openBrace === -1) continue;
-      let depth = 1;
-      let i = openBrace + 1;
-      while (i < frontmatter.length && depth > 0) {
-        if (frontmatter[i] === "{") depth++;
-        else if (frontmatter[i] === "}") depth--;
-        i++;
+function parseBody(ctx: ParseContext, start: number, end: number): BodyNode {
+  const { source } = ctx;
+  const segments: BodySegment[] = [];
+  let textStart = start;
+  let i = start;
+
+  const flushText = (textEnd: number) => {
+    if (textEnd > textStart) {
+      segments.push({
+        type: "Text",
+        range: ctx.lines.range(textStart, textEnd),
+        value: source.slice(textStart, textEnd),
+      });
+    }
+  };
+
+  while (i < end) {
+    if (source[i] === "@" && (i === start || source[i - 1] === "\n")) {
+      const lineEnd = Math.min(endOfLine(source, i), end);
+      const marker = LAYOUT_MARKER.exec(source.slice(i, lineEnd));
+
+      if (marker) {
+        flushText(i);
+        segments.push({
+          type: marker[1] === "slot" ? "Slot" : "Section",
+          range: ctx.lines.range(i, lineEnd),
+          name: marker[2] ?? "default",
+        });
+
+        // A section marker takes its line break with it; a slot leaves it in
+        // place so filled content keeps the layout's line structure
+        i = marker[1] === "slot" ? lineEnd : Math.min(lineEnd + 1, end);
+        textStart = i;
+        continue;
+      }
+    }
+
+    if (source.startsWith(":::", i) && (i === start || source[i - 1] === "\n")) {
+      const lineEnd = Math.min(endOfLine(source, i), end);
+      const marker = MESSAGE_MARKER.exec(source.slice(i, lineEnd));
+
+      if (marker) {
+        const role = marker[1];
+        if (role !== undefined && !MESSAGE_ROLES.includes(role as MessageRole)) {
+          throwParseError(
+            ctx,
+            "unknown-message-role",
+            `Unknown message role "${role}"; expected ${MESSAGE_ROLES.join(", ")}`,
+            i,
+            lineEnd,
+          );
+        }
+
+        flushText(i);
+        segments.push(
+          role === undefined
+            ? { type: "MessageEnd", range: ctx.lines.range(i, lineEnd) }
+            : { type: "Message", range: ctx.lines.range(i, lineEnd), role: role as MessageRole },
+        );
+
+        i = Math.min(lineEnd + 1, end);
+        textStart = i;
+        continue;
       }
-      declarations.push(frontmatter.slice(start, i).trim());
-    } else {
-      // For type aliases, find the end of the statement (next semicolon or newline)
-      const end = frontmatter.indexOf("\n", start);
-      declarations.push(frontmatter.slice(start, end === -1 ? undefined : end).trim());
     }
+
+    // `\${` is a literal `${` and `\{{` a literal `{{`; other backslashes
+    // are plain text
+    if (source.startsWith("\\${", i) || source.startsWith("\\{{", i)) {
+      i += 3;
+      continue;
+    }
+
+    if (source.startsWith("{{", i)) {
+      const directive = parseDirective(ctx, i, end);
+      if (directive) {
+        // A directive alone on its line takes the whole line with it, so
+        // blocks don't leave blank lines behind
+        const lineStart = Math.max(source.lastIndexOf("\n", i - 1) + 1, start);
+        const lineEnd = Math.min(endOfLine(source, directive.end), end);
+        const standalone =
+          lineStart >= textStart &&
+          source.slice(lineStart, i).trim() === "" &&
+          source.slice(directive.end, lineEnd).trim() === "";
+
+        flushText(standalone ? lineStart : i);
+        segments.push(directive.segment);
+        i = standalone ? Math.min(lineEnd + 1, end) : directive.end;
+        textStart = i;
+        continue;
+      }
+    }
+
+    if (source[i] === "$" && source[i + 1] === "{") {
+      flushText(i);
+
+      const close = matchBrace(ctx, i + 1, end);
+      if (close === -1) {
+        throwParseError(ctx, "unterminated-expression", "Unterminated `${` expression", i, i + 2);
+      }
+
+      // `${- expr -}` trims whitespace around the expression; the leading dash
+      // needs whitespace after it so `${-offset}` stays a negation
+      let codeStart = i + 2;
+      let codeEnd = close;
+      const trimBefore = source[codeStart] === "-" && /\s/.test(source[codeStart + 1] ?? "");
+      if (trimBefore) codeStart++;
+      const trimAfter = /\s-$/.test(source.slice(codeStart, codeEnd));
+      if (trimAfter) codeEnd--;
+
+      segments.push({
+        type: "Expression",
+        range: ctx.lines.range(i, close + 1),
+        codeRange: ctx.lines.range(codeStart, codeEnd),
+        code: source.slice(codeStart, codeEnd),
+        ...(trimBefore && { trimBefore }),
+        ...(trimAfter && { trimAfter }),
+      });
+
+      i = close + 1;
+      textStart = i;
+      continue;
+    }
+
+    i++;
   }
 
-  return declarations;
+  flushText(end);
+  checkBlocks(ctx, segments);
+
+  return { type: "Body", range: ctx.lines.range(start, end), segments };
 }
 
 /**
- * Extract the raw body of `interface Props { ... }` from the frontmatter.
- * Handles nested braces correctly.
+ * Parse the `{{...}}` directive at `start`, returning its segment and the
+ * index just past its closing `}}`, or undefined if it isn't a directive.
  */
-function extractPropsBody(frontmatter: string): string {
-  const marker = "interface Props";
-  const markerIndex = frontmatter.indexOf(marker);
-  if (markerIndex === -1) {
-    throw new Error("Missing `interface Props { ... }` in frontmatter");
+function parseDirective(
+  ctx: ParseContext,
+  start: number,
+  end: number,
+): { segment: BodySegment; end: number } | undefined {
+  const { source } = ctx;
+  BLOCK_DIRECTIVE.lastIndex = start;
+  const keyword = BLOCK_DIRECTIVE.exec(source)?.[1];
+  if (!keyword) return undefined;
+
+  const argsStart = start + 2 + keyword.length;
+  const close = matchDirectiveClose(ctx, argsStart, end);
+  if (close === -1) {
+    throwParseError(ctx, "unterminated-expression", `Unterminated \`{{${keyword}\` directive`, start, argsStart);
   }
 
-  const openBrace = frontmatter.indexOf("{", markerIndex + marker.length);
-  if (openBrace === -1) {
-    throw new Error("Missing opening `{` for Props interface");
+  const range = ctx.lines.range(start, close + 2);
+  const args = source.slice(argsStart, close);
+  const invalid = (reason: string): never =>
+    throwParseError(ctx, "invalid-block", reason, start, close + 2);
+
+  switch (keyword) {
+    case "#if":
+      if (args.trim() === "") invalid("`{{#if}}` needs a condition, as in `{{#if user.isAdmin}}`");
+      return {
+        segment: { type: "If", range, codeRange: ctx.lines.range(argsStart, close), code: args },
+        end: close + 2,
+      };
+    case "else": {
+      if (args.trim() === "") return { segment: { type: "Else", range }, end: close + 2 };
+
+      const condition = /^\s+if(?=\s)/.exec(args);
+      if (!condition || args.slice(condition[0].length).trim() === "") {
+        invalid("Expected `{{else}}` or `{{else if condition}}`");
+      }
+      const codeStart = argsStart + condition![0].length;
+      return {
+        segment: {
+          type: "Else",
+          range,
+          codeRange: ctx.lines.range(codeStart, close),
+          code: source.slice(codeStart, close),
+        },
+        end: close + 2,
+      };
+    }
+    case "#each": {
+      const match = EACH_ARGUMENTS.exec(args);
+      if (!match || match[1]!.trim() === "") {
+        invalid("Expected `{{#each items as item}}` or `{{#each items as item, index}}`");
+      }
+      const [, code, item, index] = match!;
+      return {
+        segment: {
+          type: "Each",
+          range,
+          codeRange: ctx.lines.range(argsStart, argsStart + code!.length),
+          code: code!,
+          item: item!,
+          ...(index !== undefined && { index }),
+        },
+        end: close + 2,
+      };
+    }
+    case "#with": {
+      const match = WITH_ARGUMENTS.exec(args);
+      if (!match || match[1]!.trim() === "") invalid("Expected `{{#with value as name}}`");
+      const [, code, name] = match!;
+      return {
+        segment: {
+          type: "With",
+          range,
+          codeRange: ctx.lines.range(argsStart, argsStart + code!.length),
+          code: code!,
+          name: name!,
+        },
+        end: close + 2,
+      };
+    }
+    default:
+      if (args.trim() !== "") invalid(`\`{{${keyword}}}\` takes no arguments`);
+      return {
+        segment: { type: "BlockEnd", range, block: keyword.slice(1) as BlockKind },
+        end: close + 2,
+      };
   }
+}
+
+/**
+ * Index of the `}}` closing a directive whose arguments start at `start`, or
+ * -1. Braces, strings and comments in the arguments are skipped.
+ */
+function matchDirectiveClose(ctx: ParseContext, start: number, end: number): number {
+  const { source } = ctx;
+  let depth = 0;
+  let i = start;
+
+  while (i < end) {
+    const ch = source[i]!;
+
+    if (ch === "}" && depth === 0) {
+      return source[i + 1] === "}" ? i : -1;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+    } else if (ch === '"' || ch === "'" || ch === "`") {
+      i = skipString(ctx, i, end);
+      continue;
+    } else if (ch === "/" && (source[i + 1] === "/" || source[i + 1] === "*")) {
+      i = skipComment(source, i, end);
+      continue;
+    }
 
-  // Walk forward, tracking brace depth to find the matching close
-  let depth = 1;
-  let i = openBrace + 1;
-  while (i < frontmatter.length && depth > 0) {
-    if (frontmatter[i] === "{") depth++;
-    else if (frontmatter[i] === "}") depth--;
     i++;
   }
 
-  if (depth !== 0) {
-    throw new Error("Unmatched `{` in Props interface");
+  return -1;
+}
+
+/**
+ * Check that block directives nest: every `{{#block}}` is closed by its own
+ * `{{/block}}`, `{{else}}` only appears in an `{{#if}}`, and no block spans
+ * a layout or message marker.
+ */
+function checkBlocks(ctx: ParseContext, segments: BodySegment[]): void {
+  const open: { segment: BodySegment; kind: BlockKind; hasElse: boolean }[] = [];
+  const fail = (code: "unterminated-block" | "unmatched-block", reason: string, segment: BodySegment): never =>
+    throwParseError(ctx, code, reason, segment.range.start.offset, segment.range.end.offset);
+  const unclosed = (block: (typeof open)[number]): never =>
+    fail("unterminated-block", `\`{{#${block.kind}}}\` is never closed; add \`{{/${block.kind}}}\``, block.segment);
+
+  for (const segment of segments) {
+    const top = open[open.length - 1];
+    switch (segment.type) {
+      case "If":
+        open.push({ segment, kind: "if", hasElse: false });
+        break;
+      case "Each":
+        open.push({ segment, kind: "each", hasElse: false });
+        break;
+      case "With":
+        open.push({ segment, kind: "with", hasElse: false });
+        break;
+      case "Else":
+        if (top?.kind !== "if") fail("unmatched-block", "`{{else}}` outside an `{{#if}}` block", segment);
+        if (top!.hasElse) fail("unmatched-block", "`{{else}}` after the final `{{else}}` of a block", segment);
+        if (segment.code === undefined) top!.hasElse = true;
+        break;
+      case "BlockEnd":
+        if (!top) fail("unmatched-block", `\`{{/${segment.block}}}\` without a matching \`{{#${segment.block}}}\``, segment);
+        if (top!.kind !== segment.block) unclosed(top!);
+        open.pop();
+        break;
+      case "Slot":
+      case "Section":
+      case "Message":
+      case "MessageEnd":
+        if (top) unclosed(top);
+        break;
+    }
   }
 
-  // Content between the outer braces (excluding the braces themselves)
-  return frontmatter.slice(openBrace + 1, i - 1).trim();
+  if (open.length > 0) unclosed(open[open.length - 1]!);
 }
 
 /**
- * Extract top-level property names from the Props body.
- *
- * Only picks up names at brace depth 0 -- properties inside nested
- * object types (e.g. `address: { street: string }`) are ignored.
+ * Given the index of a `{`, return the index of its matching `}`, or -1.
+ * String literals, template literals (including their own `${}`) and
+ * comments are skipped so braces inside them don't count.
  */
-function extractPropKeys(propsBody: string): string[] {
-  const keys: string[] = [];
+function matchBrace(ctx: ParseContext, open: number, end: number): number {
+  const { source } = ctx;
   let depth = 0;
+  let i = open;
 
-  for (const line of propsBody.split("\n")) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
+  while (i < end) {
+    const ch = source[i]!;
 
-    // Only process lines at the top level
-    if (depth === 0) {
-      const match = trimmed.match(/^(\w+)\s*[?]?\s*:/);
-      if (match?.[1]) {
-        keys.push(match[1]);
-      }
+    if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) return i;
+    } else if (ch === '"' || ch === "'" || ch === "`") {
+      i = skipString(ctx, i, end);
+      continue;
+    } else if (ch === "/" && (source[i + 1] === "/" || source[i + 1] === "*")) {
+      i = skipComment(source, i, end);
+      continue;
     }
 
-    // Track brace depth across lines
-    for (const ch of trimmed) {
-      if (ch === "{") depth++;
-      else if (ch === "}") depth--;
+    i++;
+  }
+
+  return -1;
+}
+
+/**
+ * Given the index of an opening quote or backtick, return the index just
+ * past the closing one. Template literal interpolations are matched
+ * recursively.
+ */
+function skipString(ctx: ParseContext, start: number, end: number): number {
+  const { source } = ctx;
+  const quote = source[start];
+  let i = start + 1;
+
+  while (i < end) {
+    const ch = source[i]!;
+
+    if (ch === "\\") {
+      i += 2;
+      continue;
     }
+    if (ch === quote) return i + 1;
+
+    if (quote === "`" && ch === "$" && source[i + 1] === "{") {
+      const close = matchBrace(ctx, i + 1, end);
+      if (close === -1) {
+        throwParseError(ctx, "unterminated-expression", "Unterminated `${` expression", i, i + 2);
+      }
+      i = close + 1;
+      continue;
+    }
+
+    if (quote !== "`" && ch === "\n") break;
+    i++;
   }
 
-  return keys;
+  const lineEnd = endOfLine(source, start);
+  throwParseError(ctx, "unterminated-string", "Unterminated string literal", start, Math.min(lineEnd, end));
+}
+
+function skipComment(source: string, start: number, end: number): number {
+  if (source[start + 1] === "/") return endOfLine(source, start);
+  const close = source.indexOf("*/", start + 2);
+  return close === -1 || close >= end ? end : close + 2;
+}
+
+function skipWhitespace(source: string, start: number, end: number): number {
+  let i = start;
+  while (i < end && /\s/.test(source[i]!)) i++;
+  return i;
+}
+
+function trimEndIndex(source: string, start: number, end: number): number {
+  let i = end;
+  while (i > start && /\s/.test(source[i - 1]!)) i--;
+  return i;
+}
+
+function endOfLine(source: string, start: number): number {
+  const index = source.indexOf("\n", start);
+  return index === -1 ? source.length : index;
 }
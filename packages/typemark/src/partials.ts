@@ -0,0 +1,77 @@
+import { dirname, relative, resolve } from "node:path";
+import { TypemarkParseError } from "./errors.ts";
+import { fs } from "./lazy.ts";
+import { parse } from "./parser.ts";
+import type { ParsedTemplate, PartialImport } from "./types.ts";
+
+/**
+ * Absolute path of a partial imported by `parsed`. Throws if the importing
+ * template has no file path to resolve against.
+ */
+export function partialPath(parsed: ParsedTemplate, partial: PartialImport): string {
+  if (!parsed.filePath) {
+    throw importError(
+      parsed,
+      partial,
+      "partial-not-found",
+      `Cannot resolve partial "${partial.specifier}" without a file path; pass \`filePath\` to parse()`,
+    );
+  }
+  return resolve(dirname(parsed.filePath), partial.specifier);
+}
+
+/**
+ * Read and parse every partial `root` depends on, directly or transitively.
+ *
+ * The returned map is keyed by absolute path and ordered so that each
+ * template comes after the partials it imports. The root itself is not
+ * included. Throws a {@link TypemarkParseError} at the offending import when
+ * a partial is missing or the imports form a cycle.
+ */
+export function resolvePartialGraph(root: ParsedTemplate): Map<string, ParsedTemplate> {
+  const resolved = new Map<string, ParsedTemplate>();
+  const stack: string[] = root.filePath ? [resolve(root.filePath)] : [];
+
+  const visit = (parsed: ParsedTemplate) => {
+    for (const partial of parsed.partials) {
+      const path = partialPath(parsed, partial);
+      if (resolved.has(path)) continue;
+
+      if (stack.includes(path)) {
+        const cycle = [...stack.slice(stack.indexOf(path)), path].map((p) => relative(".", p));
+        throw importError(parsed, partial, "partial-cycle", `Circular partial import: ${cycle.join(" -> ")}`);
+      }
+
+      let source: string;
+      try {
+        source = fs().readFileSync(path, "utf8");
+      } catch {
+        throw importError(parsed, partial, "partial-not-found", `Cannot find partial "${partial.specifier}"`);
+      }
+
+      const dependency = parse(source, { filePath: path });
+      stack.push(path);
+      visit(dependency);
+      stack.pop();
+      resolved.set(path, dependency);
+    }
+  };
+
+  visit(root);
+  return resolved;
+}
+
+function importError(
+  parsed: ParsedTemplate,
+  partial: PartialImport,
+  code: "partial-not-found" | "partial-cycle",
+  reason: string,
+): TypemarkParseError {
+  return new TypemarkParseError({
+    code,
+    reason,
+    source: parsed.source,
+    range: partial.range,
+    filePath: parsed.filePath,
+  });
+}
@@ -0,0 +1,54 @@
+import type ts from "typescript";
+import { typescript } from "./lazy.ts";
+
+/**
+ * Lib and dependency declaration files are identical across programs, so
+ * they are parsed once and shared until their modification time changes,
+ * which keeps watchers and dev servers checking against edited files.
+ */
+const sourceFileCache = new Map<string, { modified: number | undefined; sourceFile: ts.SourceFile }>();
+
+/** When `fileName` was last modified, in milliseconds */
+function modifiedTime(fileName: string): number | undefined {
+  const ts = typescript();
+  return ts.sys.getModifiedTime?.(fileName)?.getTime();
+}
+
+/**
+ * Create a TypeScript program whose root files live only in memory. Every
+ * other file (libs, imported declarations) is read from disk through the
+ * shared cache.
+ */
+export function createVirtualProgram(
+  files: Map<string, string>,
+  options: ts.CompilerOptions,
+  currentDirectory: string,
+): ts.Program {
+  const ts = typescript();
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile.bind(host);
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const code = files.get(fileName);
+    if (code !== undefined) {
+      return ts.createSourceFile(fileName, code, languageVersion, true);
+    }
+
+    const modified = modifiedTime(fileName);
+    const cached = sourceFileCache.get(fileName);
+    if (cached && cached.modified === modified) return cached.sourceFile;
+
+    const sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+    if (sourceFile) sourceFileCache.set(fileName, { modified, sourceFile });
+    else sourceFileCache.delete(fileName);
+    return sourceFile;
+  };
+
+  const fileExists = host.fileExists.bind(host);
+  const readFile = host.readFile.bind(host);
+  host.fileExists = (fileName) => files.has(fileName) || fileExists(fileName);
+  host.readFile = (fileName) => files.get(fileName) ?? readFile(fileName);
+  host.getCurrentDirectory = () => currentDirectory;
+
+  return ts.createProgram([...files.keys()], options, host);
+}
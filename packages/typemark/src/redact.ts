@@ -0,0 +1,52 @@
+import type { ParsedTemplate, TraceSegment } from "./types.ts";
+
+/**
+ * Join the segments of a traced render, putting each expression's
+ * placeholder from `placeholders`, keyed by its code, in place of its text.
+ * Only the values the body interpolates are replaced, so static text and
+ * other props' values are left as rendered.
+ */
+export function redact(segments: readonly TraceSegment[], placeholders: Readonly<Record<string, string>>): string {
+  return segments
+    .map((segment) =>
+      segment.type === "expression" && segment.text !== "" && Object.hasOwn(placeholders, segment.expression)
+        ? placeholders[segment.expression]
+        : segment.text,
+    )
+    .join("");
+}
+
+/**
+ * The placeholder of each `${}` expression in `parsed`'s body that reads a
+ * prop annotated with `@redact`, by its code, for {@link redact}. An
+ * expression reads a prop when it names it, as a variable or a member of
+ * `props`, or names an `{{#each}}` item or `{{#with}}` value bound from an
+ * expression that does. Names are found by a textual scan, so an expression
+ * naming the prop in a string is redacted too, which is harmless.
+ */
+export function redactedExpressions(parsed: ParsedTemplate): Record<string, string> {
+  const placeholders: Record<string, string> = {};
+  const rules = parsed.redaction ?? [];
+  if (rules.length === 0) return placeholders;
+
+  const patterns = rules.map((rule): [RegExp, string] => {
+    const key = rule.prop.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const member = `props\\s*(?:\\??\\.\\s*${key}(?![\\w$])|(?:\\?\\.)?\\[\\s*(["'\`])${key}\\1\\s*\\])`;
+    return [new RegExp(`(?<![\\w$.])(?:${member}|${key}(?![\\w$]))`), rule.placeholder];
+  });
+  const reads = (code: string) => patterns.find(([pattern]) => pattern.test(code))?.[1];
+
+  for (const segment of parsed.ast.body.segments) {
+    if (segment.type !== "Expression" && segment.type !== "Each" && segment.type !== "With") continue;
+    const placeholder = reads(segment.code);
+    if (placeholder === undefined) continue;
+    if (segment.type === "Expression") {
+      placeholders[segment.code.trim()] = placeholder;
+    } else {
+      // Later expressions reading the bound name read the prop
+      const name = segment.type === "Each" ? segment.item : segment.name;
+      patterns.push([new RegExp(`(?<![\\w$.])${name.replace(/\$/g, "\\$")}(?![\\w$])`), placeholder]);
+    }
+  }
+  return placeholders;
+}
@@ -0,0 +1,231 @@
+/**
+ * Runtime support imported by compiled template modules. Keep this free of
+ * compiler dependencies so generated code stays light.
+ */
+
+import { TemplateBudgetError, TemplatePropsError } from "./errors.ts";
+import { valueEscaper } from "./escape.ts";
+import { raw } from "./helpers.ts";
+import { normalizer, type NormalizeOptions } from "./normalize.ts";
+import { extractJson } from "./output.ts";
+import { traced, traceNormalizer, traceTag, type TraceLiteral } from "./trace.ts";
+import type {
+  EscapePolicy,
+  OutputResult,
+  PropsShape,
+  TypeShape,
+  ValidationError,
+  ValidationResult,
+} from "./types.ts";
+
+export { TemplateBudgetError, TemplatePropsError };
+export { approximateTokenizer, checkBudget } from "./tokens.ts";
+export { renderWithin } from "./truncate.ts";
+export { redact } from "./redact.ts";
+
+/** What {@link renderSupport} makes functions for */
+export interface RenderSupportOptions {
+  normalize?: NormalizeOptions | boolean;
+  escape?: EscapePolicy;
+  /** The literals traced render functions tag, by id */
+  literals?: TraceLiteral[];
+}
+
+/**
+ * The functions render code from `renderFunctions()` calls besides props,
+ * helpers and partials: `__normalize`, `__escape` and `__raw` when they
+ * apply, and the `__trace` tag, `__normalizeTrace` and `__traced` for
+ * traced render functions
+ */
+export function renderSupport(options: RenderSupportOptions) {
+  const escape = valueEscaper(options.escape);
+  return {
+    __normalize: normalizer(options.normalize),
+    __escape: escape,
+    __raw: raw,
+    __trace: traceTag(options.literals ?? [], escape),
+    __normalizeTrace: traceNormalizer(options.normalize),
+    __traced: traced,
+  };
+}
+
+/**
+ * Check `props` against a template's {@link PropsShape}. Props with a
+ * default are filled in first when left out, and the result's `props`
+ * include them.
+ */
+export function validateProps<T>(shape: PropsShape, props: unknown): ValidationResult<T> {
+  const filled = applyDefaults(shape, props);
+  const errors: ValidationError[] = [];
+  check(shape, shape.type, filled, "", errors);
+  return errors.length === 0 ? { success: true, props: filled as T } : { success: false, errors };
+}
+
+/**
+ * Return `props` with defaults filled in, or throw a
+ * {@link TemplatePropsError} if they're invalid
+ */
+export function assertValidProps<T>(shape: PropsShape, props: T): T {
+  const result = validateProps<T>(shape, props);
+  if (!result.success) throw new TemplatePropsError(result.errors);
+  return result.props;
+}
+
+/**
+ * Read a model response against a template's `interface Output`, as
+ * {@link PropsShape}: extract its JSON, from a fenced block or the text
+ * itself, and check it. Errors about the value as a whole are reported
+ * against `output` rather than `props`.
+ */
+export function parseOutput<T>(shape: PropsShape, text: string): OutputResult<T> {
+  const json = extractJson(text);
+  if ("error" in json) {
+    const received = text.trim() === "" ? "empty response" : "text";
+    return {
+      success: false,
+      errors: [{ path: "", expected: "JSON", received, message: `output: ${json.error}` }],
+    };
+  }
+
+  const errors: ValidationError[] = [];
+  check(shape, shape.type, json.value, "", errors);
+  if (errors.length === 0) return { success: true, output: json.value as T };
+  return {
+    success: false,
+    errors: errors.map((error) =>
+      error.path === "" ? { ...error, message: `output: expected ${error.expected}, received ${error.received}` } : error,
+    ),
+  };
+}
+
+/** A copy of `props` with defaults for the keys that are `undefined` */
+function applyDefaults(shape: PropsShape, props: unknown): unknown {
+  if (!shape.defaults || typeof props !== "object" || props === null) return props;
+
+  const filled: Record<string, unknown> = { ...props };
+  for (const [key, value] of Object.entries(shape.defaults)) {
+    if (filled[key] === undefined) filled[key] = value;
+  }
+  return filled;
+}
+
+function check(
+  shape: PropsShape,
+  type: TypeShape,
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+): void {
+  const fail = () => errors.push(validationError(type, value, path));
+
+  switch (type.kind) {
+    case "unknown":
+      return;
+    case "null":
+      if (value !== null) fail();
+      return;
+    case "array":
+      if (!Array.isArray(value)) return void fail();
+      value.forEach((item, i) => check(shape, type.element, item, `${path}[${i}]`, errors));
+      return;
+    case "tuple":
+      if (!Array.isArray(value) || value.length !== type.elements.length) return void fail();
+      type.elements.forEach((element, i) =>
+        check(shape, element, value[i], `${path}[${i}]`, errors),
+      );
+      return;
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) return void fail();
+      const record = value as Record<string, unknown>;
+      const declared = new Set<string>();
+
+      for (const property of type.properties) {
+        declared.add(property.name);
+        const child = record[property.name];
+        if (child === undefined && property.optional) continue;
+        check(shape, property.type, child, join(path, property.name), errors);
+      }
+      if (type.index) {
+        for (const [key, child] of Object.entries(record)) {
+          if (!declared.has(key)) check(shape, type.index, child, join(path, key), errors);
+        }
+      }
+      return;
+    }
+    case "union": {
+      const matches = type.members.some((member) => {
+        const memberErrors: ValidationError[] = [];
+        check(shape, member, value, path, memberErrors);
+        return memberErrors.length === 0;
+      });
+      if (!matches) fail();
+      return;
+    }
+    case "intersection":
+      for (const member of type.members) check(shape, member, value, path, errors);
+      return;
+    case "ref": {
+      const nested: ValidationError[] = [];
+      check(shape, shape.definitions[type.name]!, value, path, nested);
+      // Name the helper type when the value itself is wrong, rather than
+      // spelling out its definition
+      if (nested.some((error) => error.path === path)) fail();
+      else errors.push(...nested);
+      return;
+    }
+    case "literal":
+      if (value !== type.value) fail();
+      return;
+    default:
+      if (typeof value !== type.kind) fail();
+  }
+}
+
+function join(path: string, key: string): string {
+  const segment = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+  if (segment === key) return path ? `${path}.${key}` : key;
+  return `${path}[${segment}]`;
+}
+
+function validationError(type: TypeShape, value: unknown, path: string): ValidationError {
+  const expected = typeName(type);
+  const received = valueType(value);
+  return {
+    path,
+    expected,
+    received,
+    message: `${path || "props"}: expected ${expected}, received ${received}`,
+  };
+}
+
+/** Write a shape as the TypeScript type it came from */
+function typeName(type: TypeShape): string {
+  switch (type.kind) {
+    case "literal":
+      return JSON.stringify(type.value);
+    case "array": {
+      const element = typeName(type.element);
+      return /[|&]/.test(element) ? `(${element})[]` : `${element}[]`;
+    }
+    case "tuple":
+      return `[${type.elements.map((e) => typeName(e)).join(", ")}]`;
+    case "object":
+      return "object";
+    case "union":
+      return type.members.length === 0
+        ? "never"
+        : type.members.map((m) => typeName(m)).join(" | ");
+    case "intersection":
+      return type.members.map((m) => typeName(m)).join(" & ");
+    case "ref":
+      return type.name;
+    default:
+      return type.kind;
+  }
+}
+
+function valueType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
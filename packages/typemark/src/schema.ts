@@ -0,0 +1,119 @@
+import { outputShape, propsShape } from "./shape.ts";
+import type { JsonSchema, ParsedTemplate, PropDefaults, PropsShape, TypeShape } from "./types.ts";
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Generate a JSON Schema describing a template's Props, for tools that need
+ * the input shape without running TypeScript.
+ *
+ * Helper types declared in the frontmatter become `$defs`, and JSDoc
+ * comments on members become descriptions, and declared defaults become
+ * `default` keywords on properties that are no longer required. Throws a
+ * {@link TypemarkParseError} at any type JSON can't represent, such as a
+ * function or a type imported from another module.
+ */
+export function generateJsonSchema(parsed: ParsedTemplate): JsonSchema {
+  return shapeSchema(propsShape(parsed, { json: true }));
+}
+
+/**
+ * Generate a JSON Schema describing the template's `interface Output`, e.g.
+ * for a model API's structured output option, or `undefined` if it declares
+ * none. Types JSON can't represent are reported as for Props.
+ */
+export function generateOutputSchema(parsed: ParsedTemplate): JsonSchema | undefined {
+  const shape = outputShape(parsed, { json: true });
+  return shape && shapeSchema(shape);
+}
+
+function shapeSchema(shape: PropsShape): JsonSchema {
+  const schema: JsonSchema = { $schema: DRAFT, ...toSchema(shape.type) };
+  if (shape.defaults) applyDefaults(schema, shape.defaults);
+  const names = Object.keys(shape.definitions);
+  if (names.length > 0) {
+    schema.$defs = Object.fromEntries(
+      names.map((name) => [name, toSchema(shape.definitions[name]!)]),
+    );
+  }
+  return schema;
+}
+
+/**
+ * Attach defaults to the top-level properties of `schema`, including those
+ * of a layout's Props in `allOf`. Referenced `$defs` are shared, so they're
+ * left alone.
+ */
+function applyDefaults(schema: JsonSchema, defaults: PropDefaults): void {
+  for (const member of schema.allOf ?? []) applyDefaults(member, defaults);
+  if (!schema.properties) return;
+
+  for (const [key, value] of Object.entries(defaults)) {
+    const property = schema.properties[key];
+    if (!property) continue;
+    property.default = value;
+    schema.required = schema.required?.filter((name) => name !== key);
+  }
+  if (schema.required?.length === 0) delete schema.required;
+}
+
+function toSchema(type: TypeShape): JsonSchema {
+  switch (type.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "null":
+      return { type: type.kind };
+    case "literal":
+      return { const: type.value };
+    case "array":
+      return { type: "array", items: toSchema(type.element) };
+    case "tuple":
+      return {
+        type: "array",
+        prefixItems: type.elements.map(toSchema),
+        minItems: type.elements.length,
+        maxItems: type.elements.length,
+      };
+    case "object": {
+      const schema: JsonSchema = { type: "object", properties: {} };
+      const required: string[] = [];
+
+      for (const property of type.properties) {
+        const propertySchema = toSchema(property.type);
+        if (property.description) propertySchema.description = property.description;
+        schema.properties![property.name] = propertySchema;
+        if (!property.optional) required.push(property.name);
+      }
+      if (required.length > 0) schema.required = required;
+      if (type.index) schema.additionalProperties = toSchema(type.index);
+      return schema;
+    }
+    case "union":
+      return unionSchema(type.members);
+    case "intersection":
+      return { allOf: type.members.map(toSchema) };
+    case "ref":
+      return { $ref: `#/$defs/${type.name}` };
+    case "undefined":
+      return { not: {} };
+    default:
+      // `unknown` and `any`; anything unrepresentable was rejected by propsShape
+      return {};
+  }
+}
+
+/**
+ * Unions of literals become an `enum`; other unions become `anyOf`.
+ * `undefined` members are dropped, as JSON has no undefined.
+ */
+function unionSchema(members: TypeShape[]): JsonSchema {
+  const defined = members.filter((member) => member.kind !== "undefined");
+  if (defined.length === 0) return { not: {} };
+  if (defined.length === 1) return toSchema(defined[0]!);
+
+  if (defined.every((member) => member.kind === "literal" || member.kind === "null")) {
+    return { enum: defined.map((member) => (member.kind === "literal" ? member.value : null)) };
+  }
+  return { anyOf: defined.map(toSchema) };
+}
@@ -0,0 +1,310 @@
+import type ts from "typescript";
+import { TypemarkParseError } from "./errors.ts";
+import { applyLayout, resolveLayoutChain } from "./layout.ts";
+import { typescript } from "./lazy.ts";
+import { LineIndex } from "./source.ts";
+import type { ObjectShape, ParsedTemplate, PropertyShape, PropsShape, TypeShape } from "./types.ts";
+
+type LocalDeclaration = ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration;
+
+const UNKNOWN: TypeShape = { kind: "unknown" };
+
+export interface ShapeOptions {
+  /**
+   * Throw a {@link TypemarkParseError} at types that have no JSON
+   * representation, such as functions or unresolved imports, instead of
+   * describing them as `unknown`.
+   */
+  json?: boolean;
+}
+
+type Unsupported = (node: ts.Node, reason: string) => void;
+
+/**
+ * Describe a template's Props type at runtime, for validation and schemas.
+ *
+ * The frontmatter is read syntactically: primitives, literals, arrays,
+ * tuples, object types, unions, intersections, enums and the helper types
+ * declared next to Props are described exactly. Anything that needs type
+ * resolution, such as imported or generic types, becomes `unknown` and
+ * accepts any value. A layout's Props are intersected in. JSDoc comments on
+ * Props members become property descriptions, and `export const defaults`
+ * is kept alongside.
+ */
+export function propsShape(parsed: ParsedTemplate, options: ShapeOptions = {}): PropsShape {
+  const definitions: Record<string, TypeShape> = {};
+  const chain = parsed.layout && parsed.filePath ? resolveLayoutChain(parsed) : [];
+
+  const types = [parsed, ...chain].map((template) =>
+    templateShape(template, "Props", definitions, options),
+  );
+  const { defaults } = chain.length > 0 ? applyLayout(parsed) : parsed;
+  return {
+    type: types.length === 1 ? types[0]! : { kind: "intersection", members: types },
+    definitions,
+    ...(defaults && { defaults }),
+  };
+}
+
+/**
+ * Describe a template's `interface Output`, the JSON its prompt asks the
+ * model for, as {@link propsShape} does Props. Only the template's own
+ * frontmatter is read, not its layout's.
+ */
+export function outputShape(parsed: ParsedTemplate, options: ShapeOptions = {}): PropsShape | undefined {
+  if (!parsed.output) return undefined;
+  const definitions: Record<string, TypeShape> = {};
+  const type = templateShape(parsed, "Output", definitions, options);
+  return { type, definitions };
+}
+
+/**
+ * The shape of the type named `root` in the template's frontmatter. Its
+ * helper types are added to `definitions`, under their name or, when another
+ * file in the layout chain took it, their name with a number.
+ */
+function templateShape(
+  parsed: ParsedTemplate,
+  root: "Props" | "Output",
+  definitions: Record<string, TypeShape>,
+  options: ShapeOptions,
+): TypeShape {
+  const ts = typescript();
+  const sourceFile = ts.createSourceFile(
+    "frontmatter.ts",
+    parsed.frontmatter,
+    ts.ScriptTarget.ESNext,
+    true,
+  );
+
+  const locals = new Map<string, LocalDeclaration>();
+  let declaration: LocalDeclaration | undefined;
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      if (statement.name.text === root) declaration = statement;
+      else locals.set(statement.name.text, statement);
+    }
+  }
+
+  const unsupported: Unsupported | undefined = options.json
+    ? (node, reason) => {
+        const start = parsed.frontmatterStart + node.getStart(sourceFile);
+        throw new TypemarkParseError({
+          code: "unsupported-type",
+          reason: `Cannot represent \`${node.getText(sourceFile)}\` as JSON: ${reason}`,
+          source: parsed.source,
+          range: new LineIndex(parsed.source).range(start, start + node.getWidth(sourceFile)),
+          filePath: parsed.filePath,
+        });
+      }
+    : undefined;
+
+  return new ShapeBuilder(locals, definitions, unsupported).declaration(declaration!);
+}
+
+class ShapeBuilder {
+  private readonly locals: Map<string, LocalDeclaration>;
+  private readonly definitions: Record<string, TypeShape>;
+  /** The keys in `definitions` of this file's helper types, by name */
+  private readonly keys = new Map<string, string>();
+  private readonly unsupported: Unsupported | undefined;
+
+  constructor(
+    locals: Map<string, LocalDeclaration>,
+    definitions: Record<string, TypeShape>,
+    unsupported: Unsupported | undefined,
+  ) {
+    this.locals = locals;
+    this.definitions = definitions;
+    this.unsupported = unsupported;
+  }
+
+  declaration(node: LocalDeclaration): TypeShape {
+    const ts = typescript();
+    if (ts.isEnumDeclaration(node)) return this.enumShape(node);
+    if (ts.isTypeAliasDeclaration(node)) return this.type(node.type);
+
+    const own = this.members(node.members);
+    const bases = (node.heritageClauses ?? []).flatMap((clause) =>
+      clause.types.map((base) => this.reference(base)),
+    );
+    return bases.length === 0 ? own : { kind: "intersection", members: [...bases, own] };
+  }
+
+  type(node: ts.TypeNode): TypeShape {
+    const ts = typescript();
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { kind: "string" };
+      case ts.SyntaxKind.NumberKeyword:
+        return { kind: "number" };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { kind: "boolean" };
+      case ts.SyntaxKind.BigIntKeyword:
+        this.unsupported?.(node, "bigints aren't JSON values");
+        return { kind: "bigint" };
+      case ts.SyntaxKind.UndefinedKeyword:
+      case ts.SyntaxKind.VoidKeyword:
+        return { kind: "undefined" };
+      case ts.SyntaxKind.NeverKeyword:
+        return { kind: "union", members: [] };
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) return this.type(node.type);
+    if (ts.isLiteralTypeNode(node)) return this.literal(node.literal);
+    if (ts.isTemplateLiteralTypeNode(node)) return { kind: "string" };
+    if (ts.isArrayTypeNode(node)) return { kind: "array", element: this.type(node.elementType) };
+    if (ts.isTypeOperatorNode(node) && node.operator === ts.SyntaxKind.ReadonlyKeyword) {
+      return this.type(node.type);
+    }
+    if (ts.isTupleTypeNode(node)) {
+      return {
+        kind: "tuple",
+        elements: node.elements.map((element) =>
+          this.type(ts.isNamedTupleMember(element) ? element.type : element),
+        ),
+      };
+    }
+    if (ts.isTypeLiteralNode(node)) return this.members(node.members);
+    if (ts.isUnionTypeNode(node)) {
+      return { kind: "union", members: node.types.map((type) => this.type(type)) };
+    }
+    if (ts.isIntersectionTypeNode(node)) {
+      return { kind: "intersection", members: node.types.map((type) => this.type(type)) };
+    }
+    if (ts.isFunctionTypeNode(node) || ts.isConstructorTypeNode(node)) {
+      this.unsupported?.(node, "functions aren't JSON values");
+      return { kind: "function" };
+    }
+    if (ts.isTypeReferenceNode(node)) return this.reference(node);
+
+    const declared =
+      node.kind === ts.SyntaxKind.UnknownKeyword || node.kind === ts.SyntaxKind.AnyKeyword;
+    if (!declared) this.unsupported?.(node, "the type can't be resolved without the type checker");
+    return UNKNOWN;
+  }
+
+  private literal(node: ts.LiteralTypeNode["literal"]): TypeShape {
+    const ts = typescript();
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      return { kind: "literal", value: node.text };
+    }
+    if (ts.isNumericLiteral(node)) return { kind: "literal", value: Number(node.text) };
+    if (ts.isPrefixUnaryExpression(node) && ts.isNumericLiteral(node.operand)) {
+      const value = Number(node.operand.text);
+      return { kind: "literal", value: node.operator === ts.SyntaxKind.MinusToken ? -value : value };
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return { kind: "literal", value: true };
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return { kind: "literal", value: false };
+    if (node.kind === ts.SyntaxKind.NullKeyword) return { kind: "null" };
+    return UNKNOWN;
+  }
+
+  private reference(node: ts.TypeReferenceNode | ts.ExpressionWithTypeArguments): TypeShape {
+    const ts = typescript();
+    const name = ts.isTypeReferenceNode(node) ? node.typeName.getText() : node.expression.getText();
+    const args = node.typeArguments ?? [];
+
+    if ((name === "Array" || name === "ReadonlyArray") && args.length === 1) {
+      return { kind: "array", element: this.type(args[0]!) };
+    }
+    if (name === "Record" && args.length === 2) {
+      return { kind: "object", properties: [], index: this.type(args[1]!) };
+    }
+
+    const local = this.locals.get(name);
+    if (!local) {
+      this.unsupported?.(node, "only types declared in the frontmatter can be resolved");
+      return UNKNOWN;
+    }
+    // Generic helpers would need their arguments substituted; accept anything
+    if (args.length > 0 || (!ts.isEnumDeclaration(local) && local.typeParameters)) {
+      this.unsupported?.(node, "generic types aren't supported");
+      return UNKNOWN;
+    }
+
+    let key = this.keys.get(name);
+    if (key === undefined) {
+      // A layout may declare a helper type of the same name as the template's
+      key = name;
+      for (let n = 2; key in this.definitions; n++) key = `${name}_${n}`;
+      // Claim the key first so recursive references resolve to it
+      this.keys.set(name, key);
+      this.definitions[key] = UNKNOWN;
+      this.definitions[key] = this.declaration(local);
+    }
+    return { kind: "ref", name: key };
+  }
+
+  private members(members: ts.NodeArray<ts.TypeElement>): ObjectShape {
+    const ts = typescript();
+    const properties: PropertyShape[] = [];
+    let index: TypeShape | undefined;
+
+    for (const member of members) {
+      if (ts.isIndexSignatureDeclaration(member)) {
+        index = this.type(member.type);
+        continue;
+      }
+      const { name } = member;
+      if (!name || !(ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name))) {
+        continue;
+      }
+
+      let type = UNKNOWN;
+      if (ts.isPropertySignature(member) && member.type) {
+        type = this.type(member.type);
+      } else if (ts.isMethodSignature(member)) {
+        this.unsupported?.(member, "functions aren't JSON values");
+        type = { kind: "function" };
+      }
+
+      const property: PropertyShape = {
+        name: name.text,
+        optional: member.questionToken !== undefined,
+        type,
+      };
+      const description = jsDocDescription(member);
+      if (description) property.description = description;
+      properties.push(property);
+    }
+
+    return index ? { kind: "object", properties, index } : { kind: "object", properties };
+  }
+
+  /** Enum members become a union of their values, numbering from the last initializer */
+  private enumShape(node: ts.EnumDeclaration): TypeShape {
+    const ts = typescript();
+    const members: TypeShape[] = [];
+    let next = 0;
+
+    for (const member of node.members) {
+      const init = member.initializer;
+      if (init && (ts.isStringLiteral(init) || ts.isNoSubstitutionTemplateLiteral(init))) {
+        members.push({ kind: "literal", value: init.text });
+        continue;
+      }
+      if (init && ts.isNumericLiteral(init)) next = Number(init.text);
+      else if (init && ts.isPrefixUnaryExpression(init) && ts.isNumericLiteral(init.operand)) {
+        next = -Number(init.operand.text);
+      } else if (init) {
+        return { kind: "union", members: [{ kind: "number" }, { kind: "string" }] };
+      }
+      members.push({ kind: "literal", value: next++ });
+    }
+
+    return { kind: "union", members };
+  }
+}
+
+/** The text of the last JSDoc comment on a node, without its tags */
+function jsDocDescription(node: ts.Node): string | undefined {
+  const ts = typescript();
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const comment = docs[docs.length - 1]?.comment;
+  return comment ? ts.getTextOfJSDocComment(comment)?.trim() || undefined : undefined;
+}
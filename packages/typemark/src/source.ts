@@ -0,0 +1,40 @@
+import type { Position, SourceRange } from "./types.ts";
+
+/** Maps string offsets to 1-based line/column positions */
+export class LineIndex {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") this.lineStarts.push(i + 1);
+    }
+  }
+
+  position(offset: number): Position {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid]! <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - this.lineStarts[low]! + 1 };
+  }
+
+  range(start: number, end: number): SourceRange {
+    return { start: this.position(start), end: this.position(end) };
+  }
+}
+
+/** The position just past `text`, if it starts at `position` */
+export function advance(position: Position, text: string): Position {
+  const lastNewline = text.lastIndexOf("\n");
+  if (lastNewline === -1) {
+    return { ...position, offset: position.offset + text.length, column: position.column + text.length };
+  }
+  return {
+    offset: position.offset + text.length,
+    line: position.line + text.split("\n").length - 1,
+    column: text.length - lastNewline,
+  };
+}
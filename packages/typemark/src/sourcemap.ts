@@ -0,0 +1,97 @@
+import { LineIndex } from "./source.ts";
+import type { Position } from "./types.ts";
+
+/** A point in generated code that came from `original` in a `.mdt` file */
+export interface Mapping {
+  /** Offset in the generated code */
+  offset: number;
+  original: Position;
+  /** The `.mdt` file `original` points into */
+  source: string;
+}
+
+/** A Source Map v3 object */
+export interface SourceMap {
+  version: 3;
+  /** Prefix of the paths in `sources` */
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent: (string | null)[];
+  names: string[];
+  mappings: string;
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Build a source map for `code` from offset mappings. `contents` supplies
+ * `sourcesContent` for the sources it has text for.
+ */
+export function createSourceMap(
+  code: string,
+  mappings: Mapping[],
+  contents: Map<string, string> = new Map(),
+): SourceMap {
+  const lines = new LineIndex(code);
+  const sources = [...new Set(mappings.map((m) => m.source))];
+  const sorted = [...mappings].sort((a, b) => a.offset - b.offset);
+
+  const encodedLines: string[] = [];
+  let previousSource = 0;
+  let previousLine = 0;
+  let previousColumn = 0;
+  let currentLine = -1;
+  let previousGeneratedColumn = 0;
+
+  for (const mapping of sorted) {
+    const generated = lines.position(mapping.offset);
+    const line = generated.line - 1;
+
+    while (encodedLines.length <= line) encodedLines.push("");
+    if (line !== currentLine) {
+      currentLine = line;
+      previousGeneratedColumn = 0;
+    }
+
+    const source = sources.indexOf(mapping.source);
+    const segment = [
+      generated.column - 1 - previousGeneratedColumn,
+      source - previousSource,
+      mapping.original.line - 1 - previousLine,
+      mapping.original.column - 1 - previousColumn,
+    ];
+    encodedLines[line] += (encodedLines[line] ? "," : "") + segment.map(vlq).join("");
+
+    previousGeneratedColumn = generated.column - 1;
+    previousSource = source;
+    previousLine = mapping.original.line - 1;
+    previousColumn = mapping.original.column - 1;
+  }
+
+  return {
+    version: 3,
+    sources,
+    sourcesContent: sources.map((source) => contents.get(source) ?? null),
+    names: [],
+    mappings: encodedLines.join(";"),
+  };
+}
+
+/** A `//# sourceMappingURL` comment embedding the map as a data URL */
+export function inlineSourceMapComment(map: SourceMap): string {
+  const base64 = Buffer.from(JSON.stringify(map)).toString("base64");
+  return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${base64}`;
+}
+
+/** Base64 VLQ encoding of a signed integer, as used in source map mappings */
+function vlq(value: number): string {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+  let out = "";
+  do {
+    let digit = rest & 0b11111;
+    rest >>>= 5;
+    if (rest > 0) digit |= 0b100000;
+    out += BASE64[digit];
+  } while (rest > 0);
+  return out;
+}
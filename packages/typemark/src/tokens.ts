@@ -0,0 +1,49 @@
+import { TemplateBudgetError } from "./errors.ts";
+
+/**
+ * Counts the tokens in a piece of text. Typemark ships no model vocabulary,
+ * so counts are approximate unless one is passed to `compile()` or named in
+ * `typemark.config.json`, e.g. one wrapping the model's tiktoken encoding.
+ */
+export interface Tokenizer {
+  count(text: string): number;
+}
+
+/**
+ * Split text into the pieces GPT-style tokenizers merge within: words with
+ * their leading space, runs of up to three digits, punctuation and
+ * whitespace.
+ */
+const PRETOKENIZE = /'(?:[sdmt]|ll|ve|re)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+/**
+ * The default tokenizer: an estimate made without a vocabulary, not checked
+ * against any model's counts. Short ASCII pieces count as one token and
+ * longer ones as one per six characters, and other pieces as one per
+ * character.
+ */
+export const approximateTokenizer: Tokenizer = {
+  count(text) {
+    let count = 0;
+    for (const [piece] of text.matchAll(PRETOKENIZE)) {
+      const word = piece.length > 1 && piece[0] === " " ? piece.slice(1) : piece;
+      count += /^[\x00-\x7f]*$/.test(word) ? Math.max(1, Math.ceil(word.length / 6)) : Array.from(word).length;
+    }
+    return count;
+  },
+};
+
+/**
+ * Return `text`, or throw a {@link TemplateBudgetError} if it has more than
+ * `maxTokens` tokens
+ */
+export function checkBudget(
+  text: string,
+  maxTokens: number,
+  count: (text: string) => number,
+  filename = "<template>",
+): string {
+  const tokens = count(text);
+  if (tokens > maxTokens) throw new TemplateBudgetError({ filename, tokens, maxTokens });
+  return text;
+}
@@ -0,0 +1,79 @@
+import type { RenderTrace, SourceRange, TraceSegment } from "./types.ts";
+import { normalizeSteps, type NormalizeOptions } from "./normalize.ts";
+
+/** Where a template literal's text and `${}` values come from, by position */
+export interface TraceLiteral {
+  /** The source of the text before each value and after the last, if any */
+  text: (TraceSource | null)[];
+  /** Each value's expression, or `null` for a nested block */
+  values: (TraceExpression | null)[];
+}
+
+export interface TraceSource {
+  range: SourceRange;
+  filePath?: string;
+}
+
+export interface TraceExpression extends TraceSource {
+  expression: string;
+}
+
+/**
+ * The `__trace(id)` template tag traced render functions use: it turns the
+ * literal `literals[id]` into its segments, splicing in the segments of
+ * nested block literals. With `escape`, expression values are escaped.
+ */
+export function traceTag(
+  literals: TraceLiteral[],
+  escape: ((value: unknown) => unknown) | undefined,
+): (id: number) => (strings: TemplateStringsArray, ...values: unknown[]) => TraceSegment[] {
+  return (id) => {
+    const literal = literals[id]!;
+    return (strings, ...values) => {
+      const segments: TraceSegment[] = [];
+      strings.forEach((text, i) => {
+        if (text) segments.push({ type: "text", text, ...literal.text[i] } as TraceSegment);
+        if (i === values.length) return;
+        const source = literal.values[i];
+        if (!source) {
+          segments.push(...([values[i]].flat(2).filter(Boolean) as TraceSegment[]));
+        } else {
+          const value = values[i];
+          segments.push({ type: "expression", text: String(escape ? escape(value) : value), value, ...source });
+        }
+      });
+      return segments;
+    };
+  };
+}
+
+/**
+ * `__normalizeTrace(segments)`, which normalizes as `__normalize` does,
+ * deleting text from whichever segments it falls in
+ */
+export function traceNormalizer(
+  normalize: NormalizeOptions | boolean | undefined,
+): (segments: TraceSegment[]) => TraceSegment[] {
+  const steps = normalizeSteps(normalize);
+  return (segments) => {
+    for (const [pattern, replacement] of steps) {
+      const text = segments.map((segment) => segment.text).join("");
+      const dropped = new Uint8Array(text.length);
+      for (const match of text.matchAll(pattern)) {
+        dropped.fill(1, match.index + replacement.length, match.index + match[0].length);
+      }
+      let at = 0;
+      segments = segments.flatMap((segment) => {
+        let kept = "";
+        for (const end = at + segment.text.length; at < end; at++) if (!dropped[at]) kept += text[at];
+        return kept === "" && segment.type === "text" ? [] : [{ ...segment, text: kept }];
+      });
+    }
+    return segments;
+  };
+}
+
+/** `__traced(segments)`, which joins segments into a `RenderTrace` */
+export function traced(segments: TraceSegment[]): RenderTrace {
+  return { text: segments.map((segment) => segment.text).join(""), segments };
+}
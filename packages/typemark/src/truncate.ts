@@ -0,0 +1,109 @@
+import { TemplateBudgetError } from "./errors.ts";
+import type { RenderWithinResult, TruncateStrategy, TruncationCut, TruncationRule } from "./types.ts";
+
+/**
+ * Render with `props`, then shrink the props named by `rules` until the
+ * output has at most `maxTokens` tokens. Props are shrunk one at a time,
+ * lowest priority first (in declaration order on a tie), each by as little
+ * as possible, so the result only depends on the props. Throws a
+ * {@link TemplateBudgetError} if the output is still too long with every
+ * annotated prop emptied.
+ */
+export function renderWithin(
+  render: (props: Record<string, unknown>) => string,
+  props: Record<string, unknown>,
+  rules: readonly TruncationRule[],
+  count: (text: string) => number,
+  maxTokens: number | undefined,
+  filename = "<template>",
+): RenderWithinResult {
+  if (maxTokens === undefined) {
+    throw new Error("renderWithin() needs a budget: pass `maxTokens` or declare it in the frontmatter");
+  }
+
+  let current = props;
+  let text = render(current);
+  let tokens = count(text);
+  const cut: TruncationCut[] = [];
+
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+  for (const rule of ordered) {
+    if (tokens <= maxTokens) break;
+
+    const value = current[rule.prop];
+    const isArray = Array.isArray(value);
+    if (!isArray && typeof value !== "string") continue;
+
+    const strategy = rule.strategy ?? (isArray ? "start" : "end");
+    const items: unknown[] = isArray ? value : Array.from(value);
+    if (items.length === 0) continue;
+
+    const attempt = (keep: number) => {
+      const shrunk = isArray ? shrink(items, keep, strategy) : shrinkText(items as string[], keep, strategy);
+      const next = { ...current, [rule.prop]: shrunk };
+      const output = render(next);
+      return { props: next, text: output, tokens: count(output) };
+    };
+
+    // The most items that still fit, found by binary search; keep none if
+    // even that is over
+    let best = attempt(0);
+    let kept = 0;
+    let low = 1;
+    let high = items.length - 1;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const result = attempt(mid);
+      if (result.tokens <= maxTokens) {
+        best = result;
+        kept = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    ({ props: current, text, tokens } = best);
+    cut.push({
+      prop: rule.prop,
+      strategy,
+      removed: items.length - kept,
+      unit: isArray ? "items" : "characters",
+    });
+  }
+
+  if (tokens > maxTokens) throw new TemplateBudgetError({ filename, tokens, maxTokens });
+  return { text, tokens, cut };
+}
+
+/** Keep `keep` of `items`, cutting according to `strategy` */
+function shrink<T>(items: T[], keep: number, strategy: TruncateStrategy): T[] {
+  switch (strategy) {
+    case "start":
+      return keep === 0 ? [] : items.slice(-keep);
+    case "end":
+      return items.slice(0, keep);
+    case "middle": {
+      const tail = Math.floor(keep / 2);
+      return [...items.slice(0, keep - tail), ...(tail === 0 ? [] : items.slice(-tail))];
+    }
+  }
+}
+
+/** Keep `keep` of `chars`, marking where text was cut with an ellipsis */
+function shrinkText(chars: string[], keep: number, strategy: TruncateStrategy): string {
+  if (keep >= chars.length) return chars.join("");
+  if (keep === 0) return "";
+
+  const kept = shrink(chars, keep, strategy);
+  switch (strategy) {
+    case "start":
+      return `…${kept.join("")}`;
+    case "end":
+      return `${kept.join("")}…`;
+    case "middle": {
+      const head = keep - Math.floor(keep / 2);
+      return `${kept.slice(0, head).join("")}…${kept.slice(head).join("")}`;
+    }
+  }
+}
@@ -6,16 +6,657 @@ export interface ParsedTemplate {
   preamble: string[];
   /** The raw Props interface body (everything inside `interface Props { ... }`) */
   propsBody: string;
+  /**
+   * Types Props builds on, from `interface Props extends A, B` or
+   * `type Props = A & { ... }`. The full Props type is their intersection
+   * with `{ propsBody }`.
+   */
+  propsExtends: string[];
   /** The template body (everything after the closing `---`) */
   body: string;
   /** Top-level property names extracted from the Props interface */
   propKeys: string[];
+  /** Other `.mdt` templates imported as partials */
+  partials: PartialImport[];
+  /** The layout declared with `export const layout = "./layout.mdt"` */
+  layout?: LayoutReference;
+  /** Metadata declared with `export const meta = { ... }` */
+  meta?: TemplateMeta;
+  /** Default values for props, declared with `export const defaults = { ... }` */
+  defaults?: PropDefaults;
+  /** The token budget declared with `export const maxTokens = ...` */
+  maxTokens?: number;
+  /** Props `renderWithin()` may shrink, from `@priority` tags on Props members */
+  truncation?: TruncationRule[];
+  /** How `${}` values are escaped, from `export const escape = ...` */
+  escape?: EscapePolicy;
+  /** Props `renderRedacted()` hides, from `@redact` tags on Props members */
+  redaction?: RedactionRule[];
+  /**
+   * The `interface Output` (or `type Output`) declaration describing the
+   * JSON the prompt asks the model for. Like other helper types, it's also
+   * in `preamble`.
+   */
+  output?: string;
+  /** The full `.mdt` source the template was parsed from */
+  source: string;
+  /** The frontmatter text between the `---` fences, trimmed */
+  frontmatter: string;
+  /** Offset of `frontmatter` within `source` */
+  frontmatterStart: number;
+  /** Offset of `body` within `source` */
+  bodyStart: number;
+  /** Path of the `.mdt` file, when passed to `parse()` */
+  filePath?: string;
+  /** Positioned syntax tree for the whole template */
+  ast: TemplateAst;
 }
 
-/** A compiled template ready to render */
-export interface Template<T extends Record<string, unknown> = Record<string, unknown>> {
-  /** Render the template with the given props */
+/** A layout template a child template renders into */
+export interface LayoutReference {
+  /** The module specifier, relative to the child template */
+  specifier: string;
+  /** Range of the `export const layout = ...` declaration */
+  range: SourceRange;
+}
+
+/** A location in the `.mdt` source */
+export interface Position {
+  /** 0-based character offset */
+  offset: number;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+/** A half-open `[start, end)` span of the `.mdt` source */
+export interface SourceRange {
+  start: Position;
+  end: Position;
+}
+
+/** Root of the template syntax tree */
+export interface TemplateAst {
+  type: "Template";
+  range: SourceRange;
+  frontmatter: FrontmatterNode;
+  body: BodyNode;
+}
+
+/** The declarations between the `---` fences */
+export interface FrontmatterNode {
+  type: "Frontmatter";
+  range: SourceRange;
+  declarations: Declaration[];
+  props: PropsDeclaration;
+}
+
+export type Declaration =
+  | ImportDeclaration
+  | PartialImport
+  | TypeDeclaration
+  | PropsDeclaration
+  | ConstDeclaration;
+
+/** An `import` statement in the frontmatter */
+export interface ImportDeclaration {
+  type: "ImportDeclaration";
+  range: SourceRange;
+  text: string;
+}
+
+/** A default import of another `.mdt` template, e.g. `import Header from "./header.mdt"` */
+export interface PartialImport {
+  type: "PartialImport";
+  range: SourceRange;
+  /** The local name the partial is called by in the body */
+  name: string;
+  /** The module specifier, relative to the importing template */
+  specifier: string;
+  text: string;
+}
+
+/** A helper `interface`, `type` or `enum` declaration other than Props */
+export interface TypeDeclaration {
+  type: "TypeDeclaration";
+  range: SourceRange;
+  name: string;
+  text: string;
+}
+
+/** The `interface Props { ... }` or `type Props = ...` declaration */
+export interface PropsDeclaration {
+  type: "PropsDeclaration";
+  range: SourceRange;
+  text: string;
+  /** Range of the content between the braces of the Props type literal */
+  bodyRange: SourceRange;
+  members: PropMember[];
+}
+
+/** A single member of the Props interface */
+export interface PropMember {
+  type: "PropMember";
+  range: SourceRange;
+  name: string;
+  optional: boolean;
+  /** The member's type annotation, as written */
+  typeText: string;
+}
+
+/** The template text after the closing `---` */
+export interface BodyNode {
+  type: "Body";
+  range: SourceRange;
+  segments: BodySegment[];
+}
+
+export type BodySegment =
+  | TextSegment
+  | ExpressionSegment
+  | SlotSegment
+  | SectionSegment
+  | MessageSegment
+  | MessageEndSegment
+  | IfSegment
+  | ElseSegment
+  | EachSegment
+  | WithSegment
+  | BlockEndSegment;
+
+/** Literal text between interpolations */
+export interface TextSegment {
+  type: "Text";
+  range: SourceRange;
+  value: string;
+  /** Set on text merged in from a layout, whose range points into that file */
+  filePath?: string;
+}
+
+/** A `${...}` interpolation */
+export interface ExpressionSegment {
+  type: "Expression";
+  /** Range of the whole interpolation, including `${` and `}` */
+  range: SourceRange;
+  /** Range of the expression code between the braces */
+  codeRange: SourceRange;
+  /** The expression code, without whitespace control markers */
+  code: string;
+  /** `${- expr}`: trim whitespace from the end of the preceding text */
+  trimBefore?: boolean;
+  /** `${expr -}`: trim whitespace from the start of the following text */
+  trimAfter?: boolean;
+  /** Set on expressions merged in from a layout, whose ranges point into that file */
+  filePath?: string;
+}
+
+/** An `@slot name` line in a layout, filled by a child template's section */
+export interface SlotSegment {
+  type: "Slot";
+  range: SourceRange;
+  /** The slot name; a bare `@slot` is named `default` */
+  name: string;
+}
+
+/**
+ * An `@section name` line in a child template. The section's content is
+ * every segment up to the next section marker.
+ */
+export interface SectionSegment {
+  type: "Section";
+  range: SourceRange;
+  /** The slot this section fills; a bare `@section` fills `default` */
+  name: string;
+}
+
+/**
+ * A `::: system`, `::: user` or `::: assistant` line opening a chat message.
+ * The message's content is every segment up to the next message marker.
+ */
+export interface MessageSegment {
+  type: "Message";
+  range: SourceRange;
+  role: MessageRole;
+}
+
+/** A bare `:::` line closing a chat message */
+export interface MessageEndSegment {
+  type: "MessageEnd";
+  range: SourceRange;
+}
+
+/** The kinds of `{{#block}}` directive */
+export type BlockKind = "if" | "each" | "with";
+
+/** A `{{#if condition}}` directive, opening a block closed by `{{/if}}` */
+export interface IfSegment {
+  type: "If";
+  range: SourceRange;
+  /** Range of the condition */
+  codeRange: SourceRange;
+  code: string;
+  /** Set on directives merged in from a layout, whose ranges point into that file */
+  filePath?: string;
+}
+
+/** An `{{else}}` or `{{else if condition}}` directive inside an `{{#if}}` block */
+export interface ElseSegment {
+  type: "Else";
+  range: SourceRange;
+  /** The condition of an `{{else if}}`; absent for a plain `{{else}}` */
+  codeRange?: SourceRange;
+  code?: string;
+  filePath?: string;
+}
+
+/** An `{{#each items as item, index}}` directive, closed by `{{/each}}` */
+export interface EachSegment {
+  type: "Each";
+  range: SourceRange;
+  /** Range of the iterable expression */
+  codeRange: SourceRange;
+  code: string;
+  /** Name bound to each item */
+  item: string;
+  /** Name bound to each item's index, if given */
+  index?: string;
+  filePath?: string;
+}
+
+/** A `{{#with value as name}}` directive, closed by `{{/with}}` */
+export interface WithSegment {
+  type: "With";
+  range: SourceRange;
+  /** Range of the value expression */
+  codeRange: SourceRange;
+  code: string;
+  /** Name bound to the value inside the block */
+  name: string;
+  filePath?: string;
+}
+
+/** A `{{/if}}`, `{{/each}}` or `{{/with}}` directive */
+export interface BlockEndSegment {
+  type: "BlockEnd";
+  range: SourceRange;
+  block: BlockKind;
+}
+
+/** A `export const name = ...` declaration in the frontmatter */
+export interface ConstDeclaration {
+  type: "ConstDeclaration";
+  range: SourceRange;
+  name: string;
+  /** The initializer expression, as written */
+  initializer: string;
+  initializerRange: SourceRange;
+}
+
+/** Extract the Props type of a compiled template */
+export type PropsOf<T> = T extends Template<infer P> ? P : never;
+
+/** Extract the Output type of a compiled template */
+export type OutputOf<T> = T extends Template<any, infer O> ? O : never;
+
+/** The speaker of a chat message */
+export type MessageRole = "system" | "user" | "assistant";
+
+/** A role-tagged chat message, as accepted by LLM chat APIs */
+export interface Message<R extends MessageRole = MessageRole> {
+  role: R;
+  content: string;
+}
+
+/** A compiled template ready to render, whose response is an `O` */
+export interface Template<T extends Record<string, unknown> = Record<string, unknown>, O = unknown> {
+  /**
+   * Render the template with the given props. Chat templates render each
+   * message's content, separated by a blank line.
+   */
   render(props: T): string;
+  /**
+   * Render the template and a log-safe copy in one pass: `redacted` is
+   * `text` with the `${}` values read from props marked `@redact`
+   * replaced by placeholders.
+   */
+  render(props: T, options: { redacted: true }): RedactedRender;
+  /**
+   * Render the template with the `${}` values read from props marked
+   * `@redact` replaced by placeholders, for logging. The same as `render()` when no prop is.
+   */
+  renderRedacted(props: T): string;
+  /**
+   * Render the template as chat messages, one per `::: role` block. Templates
+   * without message blocks render a single `user` message.
+   */
+  renderMessages(props: T): Message[];
+  /**
+   * Check props against the template's Props type at runtime. Only present
+   * when the template is compiled with `validate` or `strict`.
+   */
+  validate?(props: unknown): ValidationResult<T>;
+  /**
+   * Render the template and count the tokens in the result, without
+   * enforcing `maxTokens`. The count is an estimate unless a tokenizer for
+   * the model is configured.
+   */
+  countTokens(props: T): number;
+  /**
+   * Render the template, shrinking props annotated with `@priority` until
+   * the output fits in `maxTokens` (the template's own budget by default).
+   * Only present when a prop is annotated.
+   */
+  renderWithin?(props: T, options?: RenderWithinOptions): RenderWithinResult;
+  /**
+   * Render the template as `render()` does (without enforcing `maxTokens`),
+   * along with the spans of output each piece of static text and `${}`
+   * expression produced, in order
+   */
+  renderWithTrace(props: T): RenderTrace;
+  /** The token budget declared with `export const maxTokens`, if any */
+  maxTokens?: number;
+  /**
+   * The JSON Schema of the frontmatter's `interface Output`. Only present
+   * when one is declared.
+   */
+  outputSchema?: JsonSchema;
+  /**
+   * Extract the JSON from a model's response, from a fenced code block or
+   * the text itself, and check it against `interface Output`. Only present
+   * when one is declared.
+   */
+  parseOutput?(text: string): OutputResult<O>;
   /** The raw template body before compilation */
   raw: string;
+  /**
+   * Metadata declared with `export const meta = { ... }` in the frontmatter,
+   * merged over the layout's; empty when there is none
+   */
+  meta: TemplateMeta;
+}
+
+/** A template whose frontmatter declares `interface Output` */
+export type Structured<T extends Template<any, any>> = T & {
+  outputSchema: JsonSchema;
+  parseOutput: NonNullable<T["parseOutput"]>;
+};
+
+/** A template whose Props annotate members with `@priority` */
+export type Truncatable<T extends Template<any>> = T & { renderWithin: NonNullable<T["renderWithin"]> };
+
+/**
+ * How `renderWithin()` shrinks a prop: `start` drops the oldest (first)
+ * items or characters, `end` the last ones, and `middle` keeps both ends
+ */
+export type TruncateStrategy = "start" | "end" | "middle";
+
+/** A prop `renderWithin()` may shrink, from `@priority` and `@truncate` tags */
+export interface TruncationRule {
+  prop: string;
+  /** Props with lower priorities are shrunk first */
+  priority: number;
+  /** Defaults to `start` for arrays and `end` for strings */
+  strategy?: TruncateStrategy;
+}
+
+export interface RenderWithinOptions {
+  /** Defaults to the template's `maxTokens` */
+  maxTokens?: number;
+}
+
+export interface RenderWithinResult {
+  /** The rendered output, within the budget */
+  text: string;
+  /** Tokens in `text` */
+  tokens: number;
+  /** What was cut, in the order props were shrunk */
+  cut: TruncationCut[];
+}
+
+/** A prop `renderWithin()` shrank */
+export interface TruncationCut {
+  prop: string;
+  strategy: TruncateStrategy;
+  /** How many items (arrays) or characters (strings) were removed */
+  removed: number;
+  unit: "items" | "characters";
+}
+
+/** A render from `renderWithTrace()` */
+export interface RenderTrace {
+  text: string;
+  /** The spans `text` is made of, in order */
+  segments: TraceSegment[];
+}
+
+/** A span of rendered output and where it came from */
+export type TraceSegment = TextTrace | ExpressionTrace | SeparatorTrace;
+
+/** Output from static text in the template */
+export interface TextTrace {
+  type: "text";
+  text: string;
+  /** The text's range in the `.mdt` source */
+  range: SourceRange;
+  /** The file the text is in, for templates with a `filePath` and layouts */
+  filePath?: string;
+}
+
+/** Output from a `${}` expression */
+export interface ExpressionTrace {
+  type: "expression";
+  /** The value as rendered, escaped if the template has an escaping policy */
+  text: string;
+  /** The expression's value */
+  value: unknown;
+  /** The expression's code */
+  expression: string;
+  /** The range of the whole `${...}` in the `.mdt` source */
+  range: SourceRange;
+  filePath?: string;
+}
+
+/** The blank line between messages in a chat template's `render()` */
+export interface SeparatorTrace {
+  type: "separator";
+  text: string;
+}
+
+/**
+ * A prop whose interpolated values `renderRedacted()` replaces, from a
+ * `@redact` tag.
+ * The tag's text is the placeholder, e.g. `@redact [email]`.
+ */
+export interface RedactionRule {
+  prop: string;
+  placeholder: string;
+}
+
+/** A render and its redacted copy, from `render(props, { redacted: true })` */
+export interface RedactedRender {
+  text: string;
+  redacted: string;
+}
+
+/**
+ * How `${}` values are escaped: `xml` escapes `&`, `<` and `>`, `markers`
+ * neutralizes closing tags and code fences, and `json` JSON-encodes them
+ */
+export type EscapeMode = "xml" | "markers" | "json";
+
+/** A template's escaping policy, from `export const escape = ...` */
+export interface EscapePolicy {
+  mode: EscapeMode;
+  /** A tag to wrap each escaped value in, e.g. `user_input` */
+  wrap?: string;
+}
+
+/** A literal value declared in the frontmatter, in `meta` or `defaults` */
+export type LiteralValue =
+  | string
+  | number
+  | boolean
+  | null
+  | readonly LiteralValue[]
+  | { readonly [key: string]: LiteralValue };
+
+/** Metadata declared with `export const meta = { ... }`, such as model settings */
+export type TemplateMeta = { readonly [key: string]: LiteralValue };
+
+/** Default values for props, by key */
+export type PropDefaults = { readonly [key: string]: LiteralValue };
+
+/** Props as callers see them: keys with a default may be left out */
+export type WithDefaults<P, K extends PropertyKey> = Omit<P, K> & Partial<Pick<P, K & keyof P>>;
+
+/** A template whose body is split into `::: role` message blocks */
+export interface ChatTemplate<
+  T extends Record<string, unknown> = Record<string, unknown>,
+  R extends MessageRole = MessageRole,
+  O = unknown,
+> extends Template<T, O> {
+  /** Render the template as chat messages, one per `::: role` block */
+  renderMessages(props: T): Message<R>[];
+}
+
+/**
+ * A runtime description of a Props type, derived from the frontmatter.
+ * Helper types declared in the frontmatter are kept in `definitions` and
+ * referenced by name, so recursive types stay finite. A layout's helper type
+ * named like one of the template's is kept under its name and a number.
+ */
+export interface PropsShape {
+  type: TypeShape;
+  definitions: Record<string, TypeShape>;
+  /** Values for top-level props that are left out or `undefined` */
+  defaults?: PropDefaults;
+}
+
+export type TypeShape =
+  | PrimitiveShape
+  | LiteralShape
+  | ArrayShape
+  | TupleShape
+  | ObjectShape
+  | UnionShape
+  | IntersectionShape
+  | RefShape;
+
+/**
+ * A primitive type. `unknown` accepts any value; it is also used for types
+ * that can't be described at runtime, such as imported types.
+ */
+export interface PrimitiveShape {
+  kind: "string" | "number" | "boolean" | "bigint" | "null" | "undefined" | "function" | "unknown";
+}
+
+/** A string, number or boolean literal type */
+export interface LiteralShape {
+  kind: "literal";
+  value: string | number | boolean;
+}
+
+export interface ArrayShape {
+  kind: "array";
+  element: TypeShape;
+}
+
+export interface TupleShape {
+  kind: "tuple";
+  elements: TypeShape[];
+}
+
+export interface ObjectShape {
+  kind: "object";
+  properties: PropertyShape[];
+  /** The value type of an index signature or `Record`, if any */
+  index?: TypeShape;
+}
+
+export interface PropertyShape {
+  name: string;
+  optional: boolean;
+  type: TypeShape;
+  /** The member's JSDoc comment, if any */
+  description?: string;
+}
+
+export interface UnionShape {
+  kind: "union";
+  members: TypeShape[];
+}
+
+export interface IntersectionShape {
+  kind: "intersection";
+  members: TypeShape[];
+}
+
+/** A reference to a helper type in {@link PropsShape.definitions} */
+export interface RefShape {
+  kind: "ref";
+  name: string;
+}
+
+/** A props value that doesn't match the template's Props type */
+export interface ValidationError {
+  /** Path to the offending value, e.g. `user.hobbies[0].name`; empty for the props object itself */
+  path: string;
+  /** The expected type, written as TypeScript */
+  expected: string;
+  /** The type of the value that was found */
+  received: string;
+  /** `path: expected X, received Y` */
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; props: T }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * A model response read by `parseOutput()`. A response without valid JSON
+ * fails with a single error at the empty path, expecting `JSON`.
+ */
+export type OutputResult<T> =
+  | { success: true; output: T }
+  | { success: false; errors: ValidationError[] };
+
+/** The subset of JSON Schema (draft 2020-12) emitted for Props */
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  description?: string;
+  default?: LiteralValue;
+  type?: "string" | "number" | "boolean" | "null" | "array" | "object";
+  const?: string | number | boolean;
+  enum?: (string | number | boolean | null)[];
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+}
+
+/** A TypeScript diagnostic reported against a `.mdt` file */
+export interface TemplateDiagnostic {
+  /** Path of the `.mdt` file, when known */
+  filePath?: string;
+  /** The flattened TypeScript diagnostic message */
+  message: string;
+  /** The TypeScript error code (e.g. `2339`) */
+  code: number;
+  category: "error" | "warning" | "suggestion" | "message";
+  /** 1-based line in the `.mdt` source */
+  line: number;
+  /** 1-based column in the `.mdt` source */
+  column: number;
+  /** Length of the offending span */
+  length: number;
 }
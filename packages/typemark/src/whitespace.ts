@@ -0,0 +1,101 @@
+import type ts from "typescript";
+import { typescript } from "./lazy.ts";
+
+/**
+ * The text of an untagged template literal's parts, between its backticks
+ * and `${}`s, dedented as {@link dedentTemplateLiterals} does and with
+ * escape sequences applied. `node` must come from a source file parsed with
+ * parent nodes set.
+ */
+export function templateQuasis(node: ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral): string[] {
+  const ts = typescript();
+  const text = node.getSourceFile().text;
+  const raw = quasiRanges(node).map(([start, end]) => text.slice(start, end));
+  return dedentQuasis(raw).map((quasi) => {
+    // The scanner cooks escape sequences as it would in any literal
+    const literal = ts.createSourceFile("quasi.ts", `\`${quasi}\``, ts.ScriptTarget.Latest).statements[0];
+    return ((literal as ts.ExpressionStatement).expression as ts.NoSubstitutionTemplateLiteral).text;
+  });
+}
+
+/**
+ * Dedent the untagged template literals in an expression, so nested blocks
+ * can be indented to match the code around them:
+ *
+ * - a blank first line (right after the backtick) is dropped
+ * - a blank last line (right before the closing backtick) is dropped
+ * - the indentation common to the remaining lines is removed
+ *
+ * Dropped line breaks become line continuations (`\` + newline), so the
+ * rewritten code keeps its line structure for source maps.
+ */
+export function dedentTemplateLiterals(code: string): string {
+  const ts = typescript();
+  if (!code.includes("`")) return code;
+
+  // Parenthesized so object literals and the like parse as expressions
+  const wrapped = `(${code})`;
+  const sourceFile = ts.createSourceFile("expression.ts", wrapped, ts.ScriptTarget.Latest, true);
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      (ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node)) &&
+      !ts.isTaggedTemplateExpression(node.parent)
+    ) {
+      const quasis = quasiRanges(node);
+      const dedented = dedentQuasis(quasis.map(([start, end]) => wrapped.slice(start, end)));
+      quasis.forEach(([start, end], i) => {
+        if (dedented[i] !== wrapped.slice(start, end)) edits.push({ start, end, text: dedented[i]! });
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  let out = wrapped;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return out.slice(1, -1);
+}
+
+/** Ranges of a template literal's raw text parts, between its backticks and `${}`s */
+function quasiRanges(node: ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral): [number, number][] {
+  const ts = typescript();
+  if (ts.isNoSubstitutionTemplateLiteral(node)) return [[node.getStart() + 1, node.end - 1]];
+
+  const ranges: [number, number][] = [[node.head.getStart() + 1, node.head.end - 2]];
+  for (const span of node.templateSpans) {
+    const { literal } = span;
+    ranges.push([literal.getStart() + 1, literal.end - (ts.isTemplateTail(literal) ? 1 : 2)]);
+  }
+  return ranges;
+}
+
+/** Dedent a template literal given as its raw text parts */
+function dedentQuasis(quasis: string[]): string[] {
+  // Substitutions count as content, so a line starting with one isn't blank
+  const lines = quasis.join("\0").split("\n");
+  if (lines.length === 1) return quasis;
+
+  const isBlank = (line: string) => /^[ \t]*$/.test(line);
+  const dropFirst = isBlank(lines[0]!);
+  const dropLast = isBlank(lines[lines.length - 1]!);
+
+  // The first line follows the backtick, so its leading whitespace isn't indentation
+  const indents = lines
+    .slice(1, dropLast ? -1 : undefined)
+    .filter((line) => !isBlank(line))
+    .map((line) => /^[ \t]*/.exec(line)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  let out = dropFirst ? "" : lines[0]!;
+  for (let i = 1; i < lines.length; i++) {
+    const last = i === lines.length - 1;
+    const dropped = (i === 1 && dropFirst) || (last && dropLast);
+    out += dropped ? "\\\n" : "\n";
+    out += last && dropLast ? "" : lines[i]!.replace(new RegExp(`^[ \\t]{0,${indent}}`), "");
+  }
+  return out.split("\0");
+}
@@ -0,0 +1,190 @@
+import { test, expect, describe } from "bun:test";
+import { checkTemplate } from "../src/checker.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TemplateRenderError, TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { evalModule } from "./eval.ts";
+
+/** Render with both compile() and compileToString(), which must agree */
+function renderBoth(source: string, props: Record<string, unknown>): string {
+  const parsed = parse(source);
+  const rendered = compile(parsed).render(props);
+  expect(evalModule(compileToString(parsed)).render(props)).toBe(rendered);
+  return rendered;
+}
+
+function parseError(source: string): TypemarkParseError {
+  try {
+    parse(source);
+  } catch (error) {
+    if (error instanceof TypemarkParseError) return error;
+    throw error;
+  }
+  throw new Error("Expected a parse error");
+}
+
+const tasks = `---
+interface Props {
+    user: {
+        name: string;
+        isAdmin: boolean;
+        tasks: { title: string; done: boolean }[];
+    };
+}
+---
+Hello, \${user.name}.
+
+{{#if user.isAdmin}}
+Your tasks:
+{{#each user.tasks as task, i}}
+\${i + 1}. \${task.title}{{#if task.done}} (done){{/if}}
+{{/each}}
+{{else if user.tasks.length > 0}}
+You have \${user.tasks.length} tasks.
+{{else}}
+Nothing to do.
+{{/if}}
+Bye.`;
+
+describe("block directives", () => {
+  test("parses directives into the body AST", () => {
+    const segments = parse(tasks).ast.body.segments.filter((s) => s.type !== "Text");
+    expect(segments.map((s) => s.type)).toEqual([
+      "Expression",
+      "If",
+      "Each",
+      "Expression",
+      "Expression",
+      "If",
+      "BlockEnd",
+      "BlockEnd",
+      "Else",
+      "Expression",
+      "Else",
+      "BlockEnd",
+    ]);
+    expect(segments[2]).toMatchObject({ code: " user.tasks", item: "task", index: "i" });
+    expect(segments[8]).toMatchObject({ code: " user.tasks.length > 0" });
+  });
+
+  test("renders if, else if, else and each", () => {
+    const user = { name: "Ada", isAdmin: true, tasks: [{ title: "Plan", done: true }, { title: "Ship", done: false }] };
+    expect(renderBoth(tasks, { user })).toBe("Hello, Ada.\n\nYour tasks:\n1. Plan (done)\n2. Ship\nBye.");
+    expect(renderBoth(tasks, { user: { ...user, isAdmin: false } })).toBe(
+      "Hello, Ada.\n\nYou have 2 tasks.\nBye.",
+    );
+    expect(renderBoth(tasks, { user: { ...user, isAdmin: false, tasks: [] } })).toBe(
+      "Hello, Ada.\n\nNothing to do.\nBye.",
+    );
+  });
+
+  test("renders with blocks and iterables", () => {
+    const source = `---
+interface Props {
+    order: { id: string; items: Set<string> };
+}
+---
+{{#with order as o}}Order \${o.id}: {{#each o.items as item}}[\${item}]{{/each}}{{/with}}`;
+
+    expect(renderBoth(source, { order: { id: "7", items: new Set(["a", "b"]) } })).toBe("Order 7: [a][b]");
+  });
+
+  test("treats \\{{ as a literal {{", () => {
+    const source = `---
+interface Props {}
+---
+Write \\{{#if x}} in Handlebars.`;
+
+    expect(renderBoth(source, {})).toBe("Write {{#if x}} in Handlebars.");
+  });
+
+  test("works inside chat messages", () => {
+    const parsed = parse(`---
+interface Props {
+    strict: boolean;
+}
+---
+::: system
+{{#if strict}}
+Answer in one word.
+{{/if}}
+:::`);
+
+    expect(compile(parsed).renderMessages({ strict: true })).toEqual([
+      { role: "system", content: "Answer in one word." },
+    ]);
+  });
+
+  test("names the directive in render errors", () => {
+    const parsed = parse(
+      `---
+interface Props {
+    items?: string[];
+}
+---
+{{#each items.slice(0, 3) as item}}\${item}{{/each}}`,
+      { filePath: "list.mdt" },
+    );
+
+    let error: unknown;
+    try {
+      compile(parsed).render({});
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TemplateRenderError);
+    expect((error as TemplateRenderError).message).toStartWith(
+      "list.mdt:6:1 - Error rendering `${items.slice(0, 3)}`",
+    );
+  });
+
+  test("types loop variables when checking", () => {
+    const parsed = parse(`---
+interface Props {
+    tasks: { title: string }[];
+}
+---
+{{#each tasks as task}}
+- \${task.name}
+{{/each}}`);
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 7, column: 10 });
+    expect(diagnostics[0]!.message).toContain("Property 'name' does not exist on type '{ title: string; }'");
+  });
+
+  test("reports unclosed and mismatched blocks", () => {
+    const unclosed = parseError(`---
+interface Props { ok: boolean }
+---
+{{#if ok}}
+Yes.`);
+    expect(unclosed.code).toBe("unterminated-block");
+    expect(unclosed.reason).toBe("`{{#if}}` is never closed; add `{{/if}}`");
+    expect(unclosed.range.start).toMatchObject({ line: 4, column: 1 });
+
+    const mismatched = parseError(`---
+interface Props { items: string[] }
+---
+{{#each items as item}}\${item}{{/if}}`);
+    expect(mismatched.code).toBe("unterminated-block");
+    expect(mismatched.reason).toBe("`{{#each}}` is never closed; add `{{/each}}`");
+
+    const stray = parseError(`---
+interface Props {}
+---
+{{else}}`);
+    expect(stray.code).toBe("unmatched-block");
+    expect(stray.reason).toBe("`{{else}}` outside an `{{#if}}` block");
+  });
+
+  test("reports malformed directives", () => {
+    const error = parseError(`---
+interface Props { items: string[] }
+---
+{{#each items}}{{/each}}`);
+    expect(error.code).toBe("invalid-block");
+    expect(error.reason).toBe("Expected `{{#each items as item}}` or `{{#each items as item, index}}`");
+  });
+});
@@ -0,0 +1,200 @@
+import { test, expect, describe, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { cpSync, existsSync, mkdirSync, readFileSync, rmSync, symlinkSync } from "node:fs";
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { buildTemplates } from "../src/build.ts";
+import type { Template } from "../src/types.ts";
+import { testFiles, type TestFiles } from "./files.ts";
+import { packedProject, runNode } from "./node.ts";
+
+let dir: string;
+let write: TestFiles["write"];
+let remove: TestFiles["remove"];
+
+function read(name: string): string {
+  return readFileSync(join(dir, name), "utf8");
+}
+
+beforeEach(() => {
+  ({ dir, write, remove } = testFiles("typemark-build-"));
+  // Built modules import `typemark/runtime`, as they would from an installed package
+  mkdirSync(join(dir, "node_modules"));
+  symlinkSync(join(import.meta.dir, ".."), join(dir, "node_modules/typemark"), "dir");
+
+  write("src/types.ts", "export interface User { name: string }\n");
+  write(
+    "src/prompts/base.mdt",
+    `---
+interface Props {
+    assistant: string;
+}
+---
+You are \${assistant}.
+
+@slot default`,
+  );
+  write(
+    "src/prompts/shared/signature.mdt",
+    `---
+interface Props {
+    team: string;
+}
+---
+-- \${team}`,
+  );
+  write(
+    "src/prompts/greeting.mdt",
+    `---
+import type { User } from "../types";
+import Signature from "./shared/signature.mdt";
+export const layout = "./base.mdt";
+
+interface Props {
+    user: User;
+}
+---
+Greet \${user.name}.
+
+\${Signature({ team: "Support" })}`,
+  );
+});
+
+afterEach(() => remove());
+
+describe("buildTemplates", () => {
+  test("mirrors the source tree with modules and declarations", async () => {
+    const { written } = await buildTemplates([join(dir, "src/prompts/greeting.mdt")], {
+      outDir: join(dir, "dist"),
+      rootDir: join(dir, "src"),
+    });
+
+    // Partials and layouts are built with the templates that use them
+    expect(written.map((path) => path.slice(dir.length + 1)).sort()).toEqual([
+      "dist/prompts/base.mdt.d.ts",
+      "dist/prompts/base.mdt.js",
+      "dist/prompts/greeting.mdt.d.ts",
+      "dist/prompts/greeting.mdt.js",
+      "dist/prompts/shared/signature.mdt.d.ts",
+      "dist/prompts/shared/signature.mdt.js",
+    ]);
+
+    const module = (await import(join(dir, "dist/prompts/greeting.mdt.js"))).default as Template;
+    expect(module.render({ assistant: "a helper", user: { name: "Ada" } })).toBe(
+      "You are a helper.\n\nGreet Ada.\n\n-- Support",
+    );
+  });
+
+  test("rewrites relative imports to resolve from the outDir", async () => {
+    await buildTemplates([join(dir, "src/prompts/greeting.mdt")], {
+      outDir: join(dir, "dist"),
+      rootDir: dir,
+    });
+
+    expect(read("dist/src/prompts/greeting.mdt.js")).toContain(
+      'import __partial_Signature from "./shared/signature.mdt.js";',
+    );
+    const dts = read("dist/src/prompts/greeting.mdt.d.ts");
+    expect(dts).toContain('import type { User } from "../../../src/types";');
+    expect(dts).toContain('import type { Props as __LayoutProps } from "./base.mdt.js";');
+    expect(dts).toContain('import type { Props as __SignatureProps } from "./shared/signature.mdt.js";');
+  });
+
+  test("writes file paths relative to rootDir", async () => {
+    await buildTemplates([join(dir, "src/prompts/greeting.mdt")], {
+      outDir: join(dir, "dist"),
+      rootDir: join(dir, "src"),
+    });
+
+    const module = read("dist/prompts/greeting.mdt.js");
+    expect(module).not.toContain(dir);
+    const template = (await import(join(dir, "dist/prompts/greeting.mdt.js"))).default as Template;
+    const { segments } = template.renderWithTrace({ assistant: "a helper", user: { name: "Ada" } });
+    expect([...new Set(segments.map((segment) => "filePath" in segment && segment.filePath))]).toEqual([
+      "prompts/base.mdt",
+      "prompts/greeting.mdt",
+    ]);
+
+    const [, data] = module.match(/sourceMappingURL=data:application\/json;charset=utf-8;base64,(\S+)/)!;
+    const map = JSON.parse(Buffer.from(data!, "base64").toString("utf8"));
+    expect(map.sourceRoot).toBe("../../src/");
+    expect(map.sources).toEqual(["prompts/base.mdt", "prompts/greeting.mdt"]);
+  });
+
+  test("emits CommonJS alongside ESM with cjs", async () => {
+    await buildTemplates([join(dir, "src/prompts/greeting.mdt")], {
+      outDir: join(dir, "dist"),
+      rootDir: join(dir, "src"),
+      cjs: true,
+    });
+
+    const cjs = read("dist/prompts/greeting.mdt.cjs");
+    expect(cjs).toContain('const __partial_Signature = require("./shared/signature.mdt.cjs").default;');
+    expect(cjs).not.toContain("export default");
+    expect(read("dist/prompts/greeting.mdt.d.cts")).toContain('from "./base.mdt.cjs";');
+
+    const require = createRequire(import.meta.url);
+    const template = require(join(dir, "dist/prompts/greeting.mdt.cjs")).default as Template;
+    expect(template.render({ assistant: "a helper", user: { name: "Ada" } })).toEndWith("-- Support");
+  });
+
+  test("removes the outputs of deleted templates", async () => {
+    const options = { outDir: join(dir, "dist"), rootDir: join(dir, "src") };
+    write("src/old/farewell.mdt", "---\ninterface Props {}\n---\nBye.");
+    await buildTemplates([join(dir, "src/old/farewell.mdt")], options);
+    expect(existsSync(join(dir, "dist/old/farewell.mdt.js"))).toBe(true);
+
+    rmSync(join(dir, "src/old"), { recursive: true });
+    write("dist/notes.txt", "kept");
+    const { removed } = await buildTemplates([join(dir, "src/prompts/base.mdt")], options);
+
+    expect(removed.map((path) => path.slice(dir.length + 1)).sort()).toEqual([
+      "dist/old/farewell.mdt.d.ts",
+      "dist/old/farewell.mdt.js",
+    ]);
+    expect(existsSync(join(dir, "dist/old"))).toBe(false);
+    expect(existsSync(join(dir, "dist/notes.txt"))).toBe(true);
+  });
+
+  test("rejects templates outside rootDir", async () => {
+    await expect(
+      buildTemplates([join(dir, "src/prompts/greeting.mdt")], {
+        outDir: join(dir, "dist"),
+        rootDir: join(dir, "src/prompts/shared"),
+      }),
+    ).rejects.toThrow("outside rootDir");
+  });
+});
+
+describe("built modules under Node", () => {
+  let project: TestFiles;
+
+  // Packing builds both packages, which takes longer than a test
+  beforeAll(() => {
+    project = packedProject("typemark-build-node-");
+  }, 300_000);
+  afterAll(() => project.remove());
+
+  test("run with typemark installed from npm pack", async () => {
+    cpSync(join(dir, "src"), join(project.dir, "src"), { recursive: true });
+    await buildTemplates([join(project.dir, "src/prompts/greeting.mdt")], {
+      outDir: join(project.dir, "dist"),
+      rootDir: join(project.dir, "src"),
+      cjs: true,
+    });
+
+    const props = JSON.stringify({ assistant: "a helper", user: { name: "Ada" } });
+    const esm = runNode(
+      ["--input-type=module", "-e", `import t from "./dist/prompts/greeting.mdt.js"; console.log(t.render(${props}));`],
+      project.dir,
+    );
+    expect(esm.stderr).toBe("");
+    expect(esm.stdout).toBe("You are a helper.\n\nGreet Ada.\n\n-- Support\n");
+
+    const cjs = runNode(
+      ["-e", `console.log(require("./dist/prompts/greeting.mdt.cjs").default.render(${props}));`],
+      project.dir,
+    );
+    expect(cjs.stderr).toBe("");
+    expect(cjs.stdout).toBe(esm.stdout);
+  });
+});
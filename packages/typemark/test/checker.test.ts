@@ -0,0 +1,119 @@
+import { test, expect, describe } from "bun:test";
+import { checkTemplate } from "../src/checker.ts";
+import { parse } from "../src/parser.ts";
+
+describe("checkTemplate", () => {
+  test("reports no diagnostics for a valid template", () => {
+    const parsed = parse(`---
+interface Props {
+    user: {
+        firstName: string;
+        age: number;
+    }
+}
+---
+
+Hello, \${user.firstName}. You are \${user.age}!`);
+
+    expect(checkTemplate(parsed)).toEqual([]);
+  });
+
+  test("ignores backticks and code fences in prose", () => {
+    const parsed = parse(`---
+interface Props {
+    schema: string;
+}
+---
+Call \`parse()\` and reply with:
+\`\`\`json
+\${schema.toUpperCase()} \${schema.missing}
+\`\`\``);
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("missing");
+    expect(diagnostics[0]!).toMatchObject({ line: 8, column: 34 });
+  });
+
+  test("reports undeclared properties at their .mdt position", () => {
+    const parsed = parse(`---
+interface Props {
+    user: {
+        isAdmin: boolean;
+    }
+}
+---
+
+Hello, \${user.firstName}.`);
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+
+    const [diagnostic] = diagnostics;
+    expect(diagnostic!.code).toBe(2339);
+    expect(diagnostic!.category).toBe("error");
+    expect(diagnostic!.message).toContain("firstName");
+    expect(diagnostic!.line).toBe(9);
+    expect(diagnostic!.column).toBe(15);
+  });
+
+  test("checks expressions using helper types from the frontmatter", () => {
+    const parsed = parse(`---
+interface Hobby {
+    name: string;
+}
+
+interface Props {
+    hobbies: Hobby[];
+}
+---
+\${hobbies.map(h => h.title).join(", ")}`);
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("title");
+    expect(diagnostics[0]!.line).toBe(10);
+  });
+
+  test("reads quoted keys through props, as renders do", () => {
+    const parsed = parse(`---
+interface Props {
+    "user-name": string;
+    tone: string;
+}
+---
+\${props["user-name"]} (\${tone}) \${props["user-id"]}`);
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("user-id");
+    expect(diagnostics[0]!).toMatchObject({ line: 7, column: 35 });
+  });
+
+  test("reports errors inside the frontmatter", () => {
+    const parsed = parse(`---
+interface Props {
+    user: Missing;
+}
+---
+\${user}`);
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("Missing");
+    expect(diagnostics[0]!.line).toBe(3);
+    expect(diagnostics[0]!.column).toBe(11);
+  });
+
+  test("includes the file path when given", () => {
+    const parsed = parse(`---
+interface Props {
+    name: string;
+}
+---
+\${nam}`);
+
+    const diagnostics = checkTemplate(parsed, { filePath: "prompt.mdt" });
+    expect(diagnostics[0]!.filePath).toBe("prompt.mdt");
+  });
+});
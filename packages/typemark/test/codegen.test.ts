@@ -109,6 +109,71 @@ interface Props {
   });
 });
 
+describe("generateDts with TypeScript frontmatter", () => {
+  test("intersects Props with the types it extends", () => {
+    const parsed = parse(`---
+interface Base {
+    id: string;
+}
+
+interface Props extends Base {
+    name: string;
+}
+---
+\${id}`);
+
+    const dts = generateDts(parsed);
+    expect(dts).toContain('import("typemark").Template<Base & {');
+    expect(dts).toContain("name: string;");
+  });
+
+  test("declares enums so they are valid in a .d.ts", () => {
+    const parsed = parse(`---
+enum Role {
+    Admin = "admin",
+}
+
+interface Props {
+    role: Role;
+}
+---
+\${role}`);
+
+    const dts = generateDts(parsed);
+    expect(dts).toContain("declare enum Role {");
+  });
+
+  test("types meta with its literal values", () => {
+    const parsed = parse(`---
+export const meta = {
+    model: "gpt-4o",
+    temperature: 0.2,
+    stop: ["END"],
+    owner: { team: "search" },
+} as const;
+
+interface Props {
+    name: string;
+}
+---
+\${name}`);
+
+    const dts = generateDts(parsed);
+    expect(dts).toContain(`declare const template: import("typemark").Template<{
+    name: string;
+}> & {
+    readonly meta: {
+        readonly model: "gpt-4o";
+        readonly temperature: 0.2;
+        readonly stop: readonly ["END"];
+        readonly owner: {
+            readonly team: "search";
+        };
+    };
+};`);
+  });
+});
+
 describe("generateDtsForFile", () => {
   test("works with actual .mdt file (examples/basic.mdt)", async () => {
     const dts = await generateDtsForFile(
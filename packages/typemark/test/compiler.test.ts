@@ -1,6 +1,10 @@
 import { test, expect, describe } from "bun:test";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
 import { compile, compileToString } from "../src/compiler.ts";
+import { TemplateRenderError } from "../src/errors.ts";
 import { parse } from "../src/parser.ts";
+import { evalModule } from "./eval.ts";
 
 describe("compile", () => {
   test("creates a working render function from basic template", () => {
@@ -87,6 +91,18 @@ ${body}`);
     const template = compile(parsed);
     expect(template.raw).toBe(body);
   });
+
+  test("attaches meta from the frontmatter", () => {
+    const parsed = parse(`---
+export const meta = { model: "gpt-4o", temperature: 0.2 } as const;
+
+interface Props {}
+---
+Hello`);
+
+    expect(compile(parsed).meta).toEqual({ model: "gpt-4o", temperature: 0.2 });
+    expect(compile(parse("---\ninterface Props {}\n---\nHello")).meta).toEqual({});
+  });
 });
 
 describe("compileToString", () => {
@@ -198,14 +214,135 @@ interface Props {
 
     const output = compileToString(parsed);
 
-    // Replace "export default" with a variable assignment so we can eval it
-    const evalCode = output.replace("export default", "var __module__ =");
-    const fn = new Function(evalCode + "\nreturn __module__;");
-    const mod = fn();
+    const mod = evalModule(output);
 
     expect(mod.render({ name: "Eve", age: 25 })).toBe(
       "Eve is 25 years old."
     );
     expect(typeof mod.raw).toBe("string");
   });
+
+  test("exports meta from the frontmatter", () => {
+    const parsed = parse(`---
+export const meta = { model: "gpt-4o", stop: ["END"] } as const;
+
+interface Props {}
+---
+Hello`);
+
+    const mod = evalModule(compileToString(parsed));
+    expect(mod.meta).toEqual({ model: "gpt-4o", stop: ["END"] });
+  });
+});
+
+describe("render errors", () => {
+  const source = `---
+interface Props {
+    user: { name: string; hobbies?: string[] };
+}
+---
+Hello, \${user.name}!
+Hobbies: \${user.hobbies.map((h) => h.toUpperCase()).join(", ")}`;
+
+  function renderError(render: () => unknown): TemplateRenderError {
+    try {
+      render();
+    } catch (err) {
+      return err as TemplateRenderError;
+    }
+    throw new Error("render did not throw");
+  }
+
+  test("wraps the error with the failing expression and its location", () => {
+    const template = compile(parse(source), { filename: "prompts/hobbies.mdt" });
+    const error = renderError(() => template.render({ user: { name: "Ada" } }));
+
+    expect(error).toBeInstanceOf(TemplateRenderError);
+    expect(error.filename).toBe("prompts/hobbies.mdt");
+    expect(error.line).toBe(7);
+    expect(error.column).toBe(10);
+    expect(error.expression).toBe('user.hobbies.map((h) => h.toUpperCase()).join(", ")');
+    expect(error.cause).toBeInstanceOf(TypeError);
+    expect(error.message).toStartWith(
+      'prompts/hobbies.mdt:7:10 - Error rendering `${user.hobbies.map((h) => h.toUpperCase()).join(", ")}`: ',
+    );
+  });
+
+  test("defaults the filename to the parsed file path", () => {
+    const template = compile(parse(source, { filePath: "/prompts/hobbies.mdt" }));
+    const error = renderError(() => template.render({ user: { name: "Ada" } }));
+    expect(error.filename).toBe("/prompts/hobbies.mdt");
+  });
+
+  test("still renders when nothing throws", () => {
+    const template = compile(parse(source));
+    expect(template.render({ user: { name: "Ada", hobbies: ["go"] } })).toBe(
+      "Hello, Ada!\nHobbies: GO",
+    );
+  });
+});
+
+describe("literal text", () => {
+  /** Render `body` through both compilers, which must agree */
+  function render(body: string) {
+    const source = `---
+interface Props {
+    data: string;
+}
+---
+${body}`;
+    const viaCompile = compile(parse(source)).render({ data: "{}" });
+
+    const output = compileToString(parse(source));
+    expect(evalModule(output).render({ data: "{}" })).toBe(viaCompile);
+
+    return viaCompile;
+  }
+
+  test("renders markdown code fences verbatim", () => {
+    const body = "Reply with:\n```json\n${data}\n```";
+    expect(render(body)).toBe("Reply with:\n```json\n{}\n```");
+  });
+
+  test("renders inline code verbatim", () => {
+    expect(render("Call `render()` with ${data}")).toBe("Call `render()` with {}");
+  });
+
+  test("keeps backslash sequences literal", () => {
+    const prose = "Paths look like C:\\new\\table, a tab is \\t and \\u0041 is not A";
+    expect(render(prose)).toBe(prose);
+  });
+
+  test("renders \\${ as a literal ${", () => {
+    expect(render("Use \\${name} for variables, got ${data}")).toBe(
+      "Use ${name} for variables, got {}",
+    );
+  });
+
+  test("keeps $ and { in prose literal", () => {
+    expect(render("Costs $5 {approx} and $${data}")).toBe("Costs $5 {approx} and ${}");
+  });
+
+  test("keeps nested template literals inside expressions working", () => {
+    expect(render("${[1, 2].map((n) => `- ${n} `+ \"`\").join(\"\\n\")}")).toBe("- 1 `\n- 2 `");
+  });
+});
+
+describe("imports", () => {
+  test("load nothing beyond Node's path and URL modules until used", () => {
+    // Follow the static value imports from the entry point, which run on import
+    const external = new Set<string>();
+    const seen = new Set<string>();
+    const visit = (path: string) => {
+      if (seen.has(path)) return;
+      seen.add(path);
+      const source = readFileSync(path, "utf8");
+      for (const [, specifier] of source.matchAll(/^(?:import|export) (?!type\b)[^;]*?from "([^"]+)";$/gm)) {
+        if (specifier!.startsWith(".")) visit(join(dirname(path), specifier!));
+        else external.add(specifier!);
+      }
+    };
+    visit(join(import.meta.dir, "../src/index.ts"));
+    expect([...external].sort()).toEqual(["node:path", "node:url"]);
+  });
 });
@@ -0,0 +1,119 @@
+import { test, expect, describe } from "bun:test";
+import { checkTemplate } from "../src/checker.ts";
+import { generateDts } from "../src/codegen.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { generateJsonSchema } from "../src/schema.ts";
+import { evalModule } from "./eval.ts";
+
+const source = `---
+export const defaults = {
+    tone: "formal",
+    tags: ["new"],
+};
+
+interface Props {
+    name: string;
+    tone?: "formal" | "casual";
+    tags?: string[];
+}
+---
+\${name} (\${tone}): \${tags.join(", ")}`;
+
+describe("defaults", () => {
+  test("parses defaults from the frontmatter", () => {
+    expect(parse(source).defaults).toEqual({ tone: "formal", tags: ["new"] });
+  });
+
+  test("fills props that are left out or undefined", () => {
+    const parsed = parse(source);
+    const template = compile(parsed);
+    const mod = evalModule(compileToString(parsed));
+
+    for (const render of [template.render, mod.render]) {
+      expect(render({ name: "Ada" })).toBe("Ada (formal): new");
+      expect(render({ name: "Ada", tone: undefined })).toBe("Ada (formal): new");
+      expect(render({ name: "Ada", tone: "casual", tags: ["a", "b"] })).toBe("Ada (casual): a, b");
+    }
+  });
+
+  test("makes defaulted keys optional in the declaration", () => {
+    const dts = generateDts(parse(source));
+    expect(dts).toContain(`declare const template: import("typemark").Template<import("typemark").WithDefaults<{
+    name: string;
+    tone?: "formal" | "casual";
+    tags?: string[];
+}, "tone" | "tags">>;`);
+  });
+
+  test("fills defaults when validating", () => {
+    const template = compile(parse(source), { validate: true });
+    expect(template.validate!({ name: "Ada" })).toEqual({
+      success: true,
+      props: { name: "Ada", tone: "formal", tags: ["new"] },
+    });
+  });
+
+  test("describes defaults in the JSON schema", () => {
+    const schema = generateJsonSchema(
+      parse(`---
+export const defaults = { tone: "formal" };
+
+interface Props {
+    name: string;
+    tone: "formal" | "casual";
+}
+---
+\${name} \${tone}`),
+    );
+
+    expect(schema.properties!.tone).toEqual({ enum: ["formal", "casual"], default: "formal" });
+    expect(schema.required).toEqual(["name"]);
+  });
+
+  test("type-checks defaults against Props", () => {
+    const check = (defaults: string) =>
+      checkTemplate(
+        parse(`---
+export const defaults = {
+    ${defaults}
+};
+
+interface Props {
+    tone?: "formal" | "casual";
+    limit?: number;
+}
+---
+\${tone} \${limit}`),
+      );
+
+    const wrongType = check('tone: "polite",');
+    expect(wrongType).toHaveLength(1);
+    expect(wrongType[0]).toMatchObject({ line: 3, column: 5 });
+    expect(wrongType[0]!.message).toContain(`Type '"polite"' is not assignable`);
+
+    const misspelled = check("limt: 3,");
+    expect(misspelled).toHaveLength(1);
+    expect(misspelled[0]).toMatchObject({ line: 3, column: 5 });
+    expect(misspelled[0]!.message).toContain("'limt' does not exist");
+  });
+
+  test("rejects defaults that aren't literals", () => {
+    let error: unknown;
+    try {
+      parse(`---
+export const defaults = { now: Date.now() };
+
+interface Props {
+    now?: number;
+}
+---
+\${now}`);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    expect((error as TypemarkParseError).range.start).toMatchObject({ line: 2, column: 32 });
+  });
+});
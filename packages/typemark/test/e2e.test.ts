@@ -1,5 +1,6 @@
 import { test, expect, describe } from "bun:test";
 import { parse, compile, compileToString, generateDts } from "../src/index.ts";
+import { evalModule } from "./eval.ts";
 
 describe("end-to-end", () => {
   describe("parse -> compile -> render with basic.mdt content", () => {
@@ -48,12 +49,7 @@ interface Props {
       const moduleString = compileToString(parsed);
 
       // Evaluate the module string to get a template object
-      const evalCode = moduleString.replace(
-        "export default",
-        "var __module__ ="
-      );
-      const fn = new Function(evalCode + "\nreturn __module__;");
-      const template = fn();
+      const template = evalModule(moduleString);
 
       expect(template.render({ greeting: "Hey", name: "World" })).toBe(
         "Hey, World!"
@@ -73,12 +69,7 @@ Value: \${x}`;
       const parsed = parse(source);
       const moduleString = compileToString(parsed);
 
-      const evalCode = moduleString.replace(
-        "export default",
-        "var __module__ ="
-      );
-      const fn = new Function(evalCode + "\nreturn __module__;");
-      const template = fn();
+      const template = evalModule(moduleString);
 
       // raw should contain the literal "${x}" as text, not an interpolated value
       expect(template.raw).toBe("Value: ${x}");
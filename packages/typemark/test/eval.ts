@@ -0,0 +1,20 @@
+import * as runtime from "../src/runtime.ts";
+import type { Template } from "../src/types.ts";
+
+/**
+ * Evaluate a module from `compileToString()` in place of importing it, with
+ * its `typemark/runtime` import bound to the runtime's exports
+ */
+export function evalModule(output: string): Template {
+  const bindings: Record<string, unknown> = {};
+  const evalCode = output
+    .replace(/^import \{ (.*) \} from "typemark\/runtime";$/m, (_, names: string) => {
+      for (const name of names.split(", ")) {
+        const [imported, local = imported] = name.split(" as ");
+        bindings[local!] = runtime[imported as keyof typeof runtime];
+      }
+      return "";
+    })
+    .replace("export default", "var __module__ =");
+  return new Function(...Object.keys(bindings), evalCode + "\nreturn __module__;")(...Object.values(bindings));
+}
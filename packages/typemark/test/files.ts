@@ -0,0 +1,33 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { parse } from "../src/parser.ts";
+import type { ParsedTemplate } from "../src/types.ts";
+
+/** Files a test writes, in a temporary directory of their own */
+export interface TestFiles {
+  dir: string;
+  /** Write `source` to `name` in `dir`, creating its directory, and return its path */
+  write(name: string, source: string): string;
+  /** Write the template `source` to `name` and parse it with its file path */
+  parseFile(name: string, source: string): ParsedTemplate;
+  /** Delete `dir` and everything in it */
+  remove(): void;
+}
+
+/** Make a temporary directory named `prefix` and a random suffix */
+export function testFiles(prefix: string): TestFiles {
+  const dir = mkdtempSync(join(tmpdir(), prefix));
+  const write = (name: string, source: string) => {
+    const path = join(dir, name);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, source);
+    return path;
+  };
+  return {
+    dir,
+    write,
+    parseFile: (name, source) => parse(source, { filePath: write(name, source) }),
+    remove: () => rmSync(dir, { recursive: true, force: true }),
+  };
+}
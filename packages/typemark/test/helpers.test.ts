@@ -0,0 +1,180 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { checkTemplate } from "../src/checker.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { date, fence, json, list, numbered, plural, tag, truncate } from "../src/helpers.ts";
+import { parse } from "../src/parser.ts";
+
+describe("helpers", () => {
+  test("list and numbered put one item per line", () => {
+    expect(list(["a", "b\nc"])).toBe("- a\n- b\n  c");
+    expect(list(new Set(["a"]), "*")).toBe("* a");
+    expect(numbered(["a", "b"])).toBe("1. a\n2. b");
+    expect(numbered(["a"], 9)).toBe("9. a");
+  });
+
+  test("json pretty-prints", () => {
+    expect(json({ a: [1] })).toBe('{\n  "a": [\n    1\n  ]\n}');
+    expect(json({ a: 1 }, 0)).toBe('{"a":1}');
+  });
+
+  test("tag wraps content in an XML-style tag", () => {
+    expect(tag("context", "Hi")).toBe("<context>\nHi\n</context>");
+    expect(tag("doc", "Hi", { source: 'a "b"', id: 2 })).toBe(
+      '<doc source="a &quot;b&quot;" id="2">\nHi\n</doc>',
+    );
+  });
+
+  test("fence outgrows backticks in the content", () => {
+    expect(fence("ts", "let a = 1;")).toBe("```ts\nlet a = 1;\n```");
+    expect(fence("md", "```js\nx\n```")).toBe("````md\n```js\nx\n```\n````");
+  });
+
+  test("truncate, plural and date", () => {
+    expect(truncate("hello world", 5)).toBe("hell…");
+    expect(truncate("hello", 5)).toBe("hello");
+    expect(truncate("hello world", 8, "...")).toBe("hello...");
+    expect(plural(1, "task")).toBe("1 task");
+    expect(plural(2, "child", "children")).toBe("2 children");
+    expect(date(new Date("2024-03-01T12:00:00Z"))).toBe("2024-03-01");
+    expect(date("2024-03-01T12:00:00Z", { month: "long", year: "numeric", timeZone: "UTC" })).toBe(
+      "March 2024",
+    );
+    expect(() => date("soon")).toThrow("Invalid date: soon");
+  });
+});
+
+describe("helpers in templates", () => {
+  const source = `---
+interface Props {
+    tasks: string[];
+}
+---
+You have \${plural(tasks.length, "task")}:
+\${numbered(tasks)}`;
+
+  test("are in scope for compile()", () => {
+    expect(compile(parse(source)).render({ tasks: ["a", "b"] })).toBe("You have 2 tasks:\n1. a\n2. b");
+  });
+
+  test("are imported by compileToString() modules when used", () => {
+    const output = compileToString(parse(source));
+    expect(output).toContain('\nimport { numbered, plural } from "typemark/helpers";\n');
+    expect(compileToString(parse("---\ninterface Props {}\n---\nHi"))).not.toContain("typemark/helpers");
+  });
+
+  test("are shadowed by props", () => {
+    const parsed = parse(`---
+interface Props {
+    list: string;
+}
+---
+\${list}`);
+    expect(compile(parsed).render({ list: "mine" })).toBe("mine");
+    expect(compileToString(parsed)).not.toContain("typemark/helpers");
+  });
+
+  test("are typed when checking", () => {
+    const diagnostics = checkTemplate(
+      parse(`---
+interface Props {
+    count: number;
+}
+---
+\${plural("many", "task")}`),
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 6, column: 10 });
+    expect(diagnostics[0]!.message).toContain("not assignable to parameter of type 'number'");
+  });
+});
+
+describe("project helpers", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(import.meta.dir, ".tmp-helpers-"));
+    writeFileSync(join(dir, "typemark.config.json"), JSON.stringify({ helpers: "./prompt-helpers.ts" }));
+    writeFileSync(
+      join(dir, "prompt-helpers.ts"),
+      `export function shout(text: string): string {
+  return text.toUpperCase() + "!";
+}
+
+export const list = (items: string[]) => items.join(" / ");
+`,
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const source = `---
+interface Props {
+    name: string;
+}
+---
+\${shout(name)} \${list(["a", "b"])}`;
+
+  test("are loaded from the config file and override built-ins", async () => {
+    const path = join(dir, "prompt.mdt");
+    const parsed = parse(source, { filePath: path });
+    expect(compile(parsed).render({ name: "hi" })).toBe("HI! a / b");
+
+    const output = compileToString(parsed);
+    expect(output).toContain('import { shout, list } from "./prompt-helpers.ts";');
+    expect(output).not.toContain("typemark/helpers");
+
+    const module = join(dir, "prompt.mjs");
+    writeFileSync(module, output);
+    const { default: template } = await import(module);
+    expect(template.render({ name: "hi" })).toBe("HI! a / b");
+  });
+
+  test("can be given to compile() instead of the config's", () => {
+    const parsed = parse(source, { filePath: join(dir, "prompt.mdt") });
+    const helpers = { shout: (text: string) => `${text}?`, list: (items: string[]) => items.join("+") };
+    expect(compile(parsed, { helpers }).render({ name: "hi" })).toBe("hi? a+b");
+    expect(() => compileToString(parsed, { helpers })).toThrow("not the helpers themselves");
+  });
+
+  test("can be given to compile() instead of the config's", () => {
+    const parsed = parse(source, { filePath: join(dir, "prompt.mdt") });
+    const helpers = { shout: (text: string) => `${text}?`, list: (items: string[]) => items.join("+") };
+    expect(compile(parsed, { helpers }).render({ name: "hi" })).toBe("hi? a+b");
+    expect(() => compileToString(parsed, { helpers })).toThrow("not the helpers themselves");
+  });
+
+  test("are typed when checking", () => {
+    const parsed = parse(source.replace("shout(name)", "shout(1)"), { filePath: join(dir, "prompt.mdt") });
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("not assignable to parameter of type 'string'");
+  });
+
+  test("are re-read when the helpers module changes", () => {
+    const edited = mkdtempSync(join(dir, "edited-"));
+    const helpers = join(edited, "prompt-helpers.ts");
+    writeFileSync(join(edited, "typemark.config.json"), JSON.stringify({ helpers: "./prompt-helpers.ts" }));
+    writeFileSync(helpers, "export const shout = (text: string) => text;\nexport const list = String;\n");
+    const parsed = parse(source, { filePath: join(edited, "prompt.mdt") });
+    expect(checkTemplate(parsed)).toEqual([]);
+
+    writeFileSync(helpers, "export const shout = (count: number) => count;\nexport const list = String;\n");
+    const later = new Date(Date.now() + 10_000);
+    utimesSync(helpers, later, later);
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("not assignable to parameter of type 'number'");
+  });
+
+  test("reports an invalid config", () => {
+    const bad = mkdtempSync(join(dir, "bad-"));
+    writeFileSync(join(bad, "typemark.config.json"), '{ "helpers": 1 }');
+    expect(() => compile(parse(source, { filePath: join(bad, "prompt.mdt") }))).toThrow(
+      "`helpers` must be a module path",
+    );
+  });
+});
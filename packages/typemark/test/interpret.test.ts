@@ -0,0 +1,397 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { join } from "node:path";
+import { compile, type CompileOptions } from "../src/compiler.ts";
+import { TemplateRenderError, TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import type { ParsedTemplate } from "../src/types.ts";
+import { testFiles } from "./files.ts";
+
+const { dir, write, remove } = testFiles("typemark-interpret-");
+
+beforeAll(() => {
+  write(
+    "base.mdt",
+    `---
+interface Props {
+    assistant: string;
+}
+---
+You are \${assistant.trim()}.
+
+@slot default`,
+  );
+  write(
+    "item.mdt",
+    `---
+interface Props {
+    label: string;
+    done: boolean;
+}
+---
+[\${done ? "x" : " "}] \${label}`,
+  );
+});
+
+afterAll(remove);
+
+/** Expect both modes to render `parsed` the same way for each of `props` */
+function expectParity(parsed: ParsedTemplate, props: Record<string, unknown>[], options: CompileOptions = {}) {
+  const compiled = compile(parsed, options);
+  const interpreted = compile(parsed, { ...options, mode: "interpret" });
+  for (const p of props) {
+    expect(interpreted.render(p)).toBe(compiled.render(p));
+    expect(interpreted.renderMessages(p)).toEqual(compiled.renderMessages(p));
+    expect(interpreted.renderWithTrace(p)).toEqual(compiled.renderWithTrace(p));
+  }
+  return interpreted;
+}
+
+/** The error compiling `source` in interpret mode throws */
+function interpretError(source: string): TypemarkParseError {
+  try {
+    compile(parse(source, { filePath: "prompt.mdt" }), { mode: "interpret" });
+  } catch (error) {
+    return error as TypemarkParseError;
+  }
+  throw new Error("Expected compile() to throw");
+}
+
+const header = `---
+interface Props {
+    user: { name: string; tags: string[]; nickname?: string };
+    tasks: { title: string; priority: number; done: boolean }[];
+    tone?: string;
+}
+
+export const defaults = { tone: "friendly" };
+---
+`;
+
+const user = { name: "Ada", tags: ["math", "engines"] };
+const tasks = [
+  { title: "Write notes", priority: 2, done: false },
+  { title: "Check tables", priority: 1, done: true },
+];
+
+describe("interpret mode", () => {
+  test("renders expressions as the compiled template does", () => {
+    const parsed = parse(`${header}Hi \${user.nickname ?? user.name.toUpperCase()}, in a \${tone} tone.
+Tags: \${user.tags.map((tag, i) => \`\${i + 1}. #\${tag}\`).join(", ")}
+Open: \${tasks.filter(({ done }) => !done).length} of \${tasks.length}
+Done: \${Math.round((100 * tasks.filter((t) => t.done).length) / tasks.length)}%
+Next: \${tasks.toSorted((a, b) => a.priority - b.priority)[0]?.title ?? "nothing"}
+Data: \${JSON.stringify({ ...user, count: tasks.length, [user.name]: true })}
+Regex: \${user.name.replace(/a/gi, "4")} \${typeof missing} \${(-tasks.length) ** 2 > 4 || "small"}`);
+
+    const template = expectParity(parsed, [
+      { user, tasks },
+      { user: { ...user, nickname: "Countess" }, tasks: [], tone: "dry" },
+    ]);
+    expect(template.render({ user, tasks })).toBe(`Hi ADA, in a friendly tone.
+Tags: 1. #math, 2. #engines
+Open: 1 of 2
+Done: 50%
+Next: Check tables
+Data: {"name":"Ada","tags":["math","engines"],"count":2,"Ada":true}
+Regex: 4d4 undefined small`);
+  });
+
+  test("renders blocks and dedented nested templates", () => {
+    const parsed = parse(`${header}{{#if tasks.length === 0}}
+Nothing to do.
+{{else if tasks.every((task) => task.done)}}
+All done.
+{{else}}
+{{#each tasks as task, i}}
+\${i + 1}. \${task.title}\${task.done ? " (done)" : ""}
+{{/each}}
+{{/if}}
+{{#with user.tags as tags}}
+\${tags.length} tags\${tags.length > 1 ? \`
+    : \${tags.join(" and ")}
+\` : ""}
+{{/with}}`);
+
+    expectParity(parsed, [
+      { user, tasks },
+      { user, tasks: [] },
+      { user: { ...user, tags: ["math"] }, tasks: [tasks[1]] },
+    ]);
+  });
+
+  test("escapes values and renders chat messages", () => {
+    const parsed = parse(`---
+interface Props {
+    question: string;
+    notes: string[];
+}
+
+export const escape = { mode: "xml", wrap: "input" };
+---
+::: system
+Answer using the notes.
+{{#each notes as note}}
+- \${note}
+{{/each}}
+:::
+
+::: user
+\${question}
+:::`);
+
+    const template = expectParity(parsed, [{ question: "Is 1 < 2?", notes: ["a & b", "<c>"] }]);
+    expect(template.renderMessages({ question: "Is 1 < 2?", notes: [] })[1]).toEqual({
+      role: "user",
+      content: "<input>Is 1 &lt; 2?</input>",
+    });
+
+    const trusted = compile(
+      parse(`---
+interface Props {}
+
+export const escape = "xml";
+---
+\${raw("<b>trusted</b>")} \${"<i>"}`),
+      { mode: "interpret" },
+    );
+    expect(trusted.render({})).toBe("<b>trusted</b> &lt;i&gt;");
+  });
+
+  test("renders layouts and partials", () => {
+    const source = `---
+import Item from "./item.mdt";
+export const layout = "./base.mdt";
+
+interface Props {
+    items: { label: string; done: boolean }[];
+}
+---
+{{#each items as item}}
+\${Item(item)}
+{{/each}}`;
+    const list = parse(source, { filePath: write("list.mdt", source) });
+    const template = expectParity(list, [
+      { assistant: " a planner ", items: [{ label: "Plan", done: true }, { label: "Ship", done: false }] },
+    ]);
+    expect(template.render({ assistant: "a planner", items: [{ label: "Plan", done: true }] })).toBe(
+      "You are a planner.\n\n[x] Plan",
+    );
+  });
+
+  test("normalizes output unless normalize is false", () => {
+    const parsed = parse(`${header}Hi \${user.name}   \n\n\n\nBye`);
+    expectParity(parsed, [{ user, tasks }]);
+    expectParity(parsed, [{ user, tasks }], { normalize: false });
+  });
+
+  test("wraps errors thrown by expressions in TemplateRenderError", () => {
+    const source = `${header}Hi \${user.name}.
+{{#each tasks as task}}
+\${task.title.toUpperCase()}
+{{/each}}`;
+    const render = (mode: CompileOptions["mode"]) => {
+      try {
+        compile(parse(source, { filePath: "prompt.mdt" }), { mode }).render({ user, tasks: [{}] });
+      } catch (error) {
+        return error as TemplateRenderError;
+      }
+      throw new Error("Expected render() to throw");
+    };
+
+    const error = render("interpret");
+    expect(error).toBeInstanceOf(TemplateRenderError);
+    expect(error.message).toStartWith("prompt.mdt:12:1 - Error rendering `${task.title.toUpperCase()}`:");
+    expect(error.cause).toBeInstanceOf(TypeError);
+    const compiled = render("function");
+    expect([error.line, error.column, error.expression]).toEqual([compiled.line, compiled.column, compiled.expression]);
+  });
+
+  test("doesn't generate code from strings, when loading or rendering", () => {
+    // A fresh process, so code generation is stubbed out before any module loads
+    const source = `---
+interface Props {
+    name: string;
+}
+
+export const escape = "markers";
+---
+Hello, \${name}!`;
+    const script = `
+const forbidden = () => {
+  throw new EvalError("Code generation from strings disallowed");
+};
+globalThis.Function = Function.prototype.constructor = forbidden;
+globalThis.eval = forbidden;
+const { compile, parse } = await import(${JSON.stringify(join(import.meta.dir, "../src/index.ts"))});
+const render = (mode) => {
+  try {
+    const template = compile(parse(${JSON.stringify(source)}), { mode, validate: true });
+    return [template.render({ name: "</b>" }), template.renderWithTrace({ name: "Ada" }).text];
+  } catch (error) {
+    return error.message;
+  }
+};
+console.log(JSON.stringify({ interpret: render("interpret"), function: render("function") }));
+`;
+    const result = spawnSync(process.execPath, ["--eval", script], { encoding: "utf8", timeout: 60_000 });
+    expect(result.stderr).toBe("");
+    expect(JSON.parse(result.stdout)).toEqual({
+      interpret: ["Hello, <\\/b>!", "Hello, Ada!"],
+      function: "Code generation from strings disallowed",
+    });
+  });
+
+  test("takes project helpers and the tokenizer from options, not typemark.config.json", () => {
+    write(
+      "project/typemark.config.json",
+      JSON.stringify({ helpers: "./missing-helpers.ts", tokenizer: "./missing-tokenizer.ts" }),
+    );
+    const source = `---
+interface Props {
+    name: string;
+}
+---
+\${shout(name)} \${truncate(name, 2)}`;
+    const parsed = parse(source, { filePath: join(dir, "project/prompt.mdt") });
+
+    const helpers = { shout: (text: string) => `${text.toUpperCase()}!` };
+    const template = compile(parsed, { mode: "interpret", helpers });
+    expect(template.render({ name: "Ada" })).toBe("ADA! A…");
+    expect(template.countTokens({ name: "Ada" })).toBeGreaterThan(0);
+
+    const words = { count: (text: string) => text.split(" ").length };
+    expect(compile(parsed, { mode: "interpret", helpers, tokenizer: words }).countTokens({ name: "Ada" })).toBe(2);
+    expect(() => compile(parsed, { mode: "interpret", helpers: "./helpers.ts" })).toThrow(
+      "Interpret mode takes the helpers themselves as `helpers`, not the path of their module",
+    );
+  });
+});
+
+describe("interpret mode errors", () => {
+  test("points at syntax outside the supported subset", () => {
+    const error = interpretError(`---
+interface Props {
+    items: string[];
+}
+---
+Count: \${items.push("x")}`);
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    expect(error.code).toBe("unsupported-expression");
+    expect(error.reason).toBe("Interpret mode doesn't support calling `.push()`");
+    expect(error.range.start).toMatchObject({ line: 6, column: 16 });
+    expect(error.frame).toContain("> 6 | Count: ${items.push(\"x\")}");
+  });
+
+  test("rejects assignments, new, unknown names and disallowed members", () => {
+    const template = (code: string) => `---
+interface Props {
+    items: string[];
+}
+---
+\${${code}}`;
+
+    expect(interpretError(template("items = []")).reason).toBe("Interpret mode doesn't support assignments");
+    expect(interpretError(template("new Date()")).reason).toBe("Interpret mode doesn't support `new`");
+    expect(interpretError(template("Date.now()")).reason).toBe(
+      "Interpret mode doesn't provide the global `Date`; pass it in as a prop or helper",
+    );
+    expect(interpretError(template("itemz.length")).reason).toBe("`itemz` isn't a prop, helper or partial");
+    expect(interpretError(template("items.constructor")).reason).toBe(
+      "Interpret mode doesn't allow accessing `constructor`",
+    );
+    expect(interpretError(template("Object.assign({}, items)")).reason).toBe(
+      "Interpret mode doesn't provide `Object.assign`",
+    );
+    expect(interpretError(template("items.map((item) => { return item; })")).reason).toBe(
+      "Interpret mode doesn't support arrow functions with a block body",
+    );
+  });
+
+  test("reports syntax errors with their position", () => {
+    const error = interpretError(`---
+interface Props {
+    a: number;
+}
+---
+Sum: \${a +}`);
+    expect(error.code).toBe("syntax-error");
+    expect(error.range.start.line).toBe(6);
+    expect(error.reason).toBe("Expression expected.");
+  });
+
+  test("only names namespaces before their members", () => {
+    const template = (code: string) => `---
+interface Props {
+    items: number[];
+}
+---
+\${${code}}`;
+
+    expect(interpretError(template("[Object][0].keys(items)")).reason).toBe(
+      "Interpret mode only supports `Object` before a member name, as in `Object.keys`",
+    );
+    expect(interpretError(template('Math["max"](...items)')).reason).toBe(
+      "Interpret mode only supports `Math` before a member name, as in `Math.abs`",
+    );
+    expect(interpretError(template("items.map(String)")).reason).toBe(
+      "Interpret mode only supports `String` before a member name, as in `String.fromCharCode`",
+    );
+
+    const code = "`${Object.keys(items)} ${items.map(Math.round).filter(Boolean)} ${String(items[0])}`";
+    expect(compile(parse(template(code)), { mode: "interpret" }).render({ items: [0.2, 1.6] })).toBe("0,1 2 0.2");
+  });
+
+  test("refuses functions that aren't helpers, partials or the template's arrow functions", () => {
+    const escape = `---
+interface Props {
+    f: number;
+}
+---
+\${[[f].map([Object][0].getPrototypeOf)[0]].map([Object][0].getOwnPropertyDescriptors).map(d => [Object][0].values(d).find(x => x.value && x.value.name === "Function").value).map(F => F("return typeof process")).map(g => g())[0]}`;
+    expect(interpretError(escape).reason).toBe(
+      "Interpret mode only supports `Object` before a member name, as in `Object.keys`",
+    );
+
+    const render = (code: string, props: Record<string, unknown>) =>
+      compile(
+        parse(`---
+interface Props {
+    items: string[];
+    format: (text: string) => string;
+}
+---
+\${${code}}`),
+        { mode: "interpret", helpers: { shout: (text: string) => text.toUpperCase() } },
+      ).render(props as never);
+    const props = { items: ["a", "b"], format: (text: string) => `<${text}>` };
+
+    expect(render('items.map((item) => shout(item)).concat(items.map(shout)).join("")', props)).toBe("ABAB");
+    expect(() => render("items.map(items.concat)", props)).toThrow(
+      "`items.concat` is a function interpret mode doesn't allow as a value",
+    );
+    expect(() => render("[items.join].length", props)).toThrow(
+      "`items.join` is a function interpret mode doesn't allow as a value",
+    );
+    expect(() => render("items.map(format)", props)).toThrow(
+      "`format` is a function interpret mode doesn't allow as a value",
+    );
+    expect(() => render("Object.values(props).find((value) => typeof value === \"function\")", props)).toThrow(
+      "is a function interpret mode doesn't allow as a value",
+    );
+  });
+
+  test("checks computed members when rendering", () => {
+    const template = compile(
+      parse(`---
+interface Props {
+    key: string;
+}
+---
+\${[][key]}`),
+      { mode: "interpret" },
+    );
+    expect(template.render({ key: "length" })).toBe("0");
+    expect(() => template.render({ key: "constructor" })).toThrow("doesn't allow accessing `constructor`");
+  });
+});
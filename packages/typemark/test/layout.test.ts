@@ -0,0 +1,301 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { checkTemplate } from "../src/checker.ts";
+import { generateDts } from "../src/codegen.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TypemarkParseError } from "../src/errors.ts";
+import { applyLayout } from "../src/layout.ts";
+import { parse } from "../src/parser.ts";
+import { testFiles } from "./files.ts";
+
+const { write, parseFile, remove } = testFiles("typemark-layout-");
+
+beforeAll(() => {
+  write(
+    "base.mdt",
+    `---
+interface Props {
+    assistant: string;
+}
+---
+You are \${assistant}.
+
+@slot instructions
+
+Respond in \${"JSON"}.
+@slot format`,
+  );
+});
+
+afterAll(remove);
+
+describe("layouts", () => {
+  test("parses the layout declaration and markers", () => {
+    const parsed = parse(`---
+export const layout = "./base.mdt";
+
+interface Props {
+    task: string;
+}
+---
+@section instructions
+Do \${task}.`);
+
+    expect(parsed.layout?.specifier).toBe("./base.mdt");
+    expect(parsed.preamble).toEqual([]);
+    expect(parsed.ast.body.segments.map((s) => s.type)).toEqual([
+      "Section",
+      "Text",
+      "Expression",
+      "Text",
+    ]);
+  });
+
+  test("rejects a layout that isn't a string literal", () => {
+    expect(() =>
+      parse(`---
+export const layout = base;
+
+interface Props {}
+---
+`),
+    ).toThrow("`layout` must be a string literal");
+  });
+
+  test("compile fills slots with the child's sections", () => {
+    const child = parseFile(
+      "child.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {
+    task: string;
+}
+---
+@section instructions
+
+Summarize \${task}.
+
+@section format
+Keep it short.`,
+    );
+
+    const template = compile(child);
+    expect(template.render({ assistant: "a summarizer", task: "the report" })).toBe(
+      "You are a summarizer.\n\nSummarize the report.\n\nRespond in JSON.\nKeep it short.",
+    );
+  });
+
+  test("unfilled slots render nothing", () => {
+    const child = parseFile(
+      "partial-fill.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {}
+---
+@section format
+XML`,
+    );
+
+    expect(compile(child, { normalize: false }).render({ assistant: "x" })).toBe(
+      "You are x.\n\n\n\nRespond in JSON.\nXML",
+    );
+  });
+
+  test("merges Props keys from the layout and the child", () => {
+    const child = parseFile(
+      "keys.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {
+    task: string;
+}
+---
+@section instructions
+\${task}`,
+    );
+
+    expect(applyLayout(child).propKeys).toEqual(["assistant", "task"]);
+  });
+
+  test("supports layouts that use layouts", () => {
+    write(
+      "middle.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {
+    tone: string;
+}
+---
+@section instructions
+Be \${tone}.
+@slot details
+@section format
+Markdown`,
+    );
+    const child = parseFile(
+      "nested.mdt",
+      `---
+export const layout = "./middle.mdt";
+
+interface Props {}
+---
+@section details
+Cite sources.`,
+    );
+
+    expect(compile(child).render({ assistant: "A", tone: "brief" })).toBe(
+      "You are A.\n\nBe brief.\nCite sources.\n\nRespond in JSON.\nMarkdown",
+    );
+  });
+
+  test("compileToString emits the merged body", () => {
+    const child = parseFile(
+      "string.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {
+    task: string;
+}
+---
+@section instructions
+\${task}`,
+    );
+
+    const output = compileToString(child);
+    expect(output).toContain("const { assistant, task } = props;");
+    expect(output).toContain("return `You are ${assistant}.\n\n${task}\n\nRespond in");
+  });
+
+  test("reports sections the layout has no slot for", () => {
+    const child = parseFile(
+      "unknown.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {}
+---
+@section footer
+Bye`,
+    );
+
+    let error: unknown;
+    try {
+      compile(child);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    const parseError = error as TypemarkParseError;
+    expect(parseError.code).toBe("unknown-slot");
+    expect(parseError.range.start.line).toBe(6);
+    expect(parseError.reason).toContain("available: instructions, format");
+  });
+
+  test("rejects content outside sections when there is no default slot", () => {
+    const child = parseFile(
+      "loose.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {}
+---
+Loose text`,
+    );
+
+    expect(() => compile(child)).toThrow("The layout has no default `@slot`");
+  });
+
+  test("detects layout cycles", () => {
+    write(
+      "loop-a.mdt",
+      `---
+export const layout = "./loop-b.mdt";
+
+interface Props {}
+---
+@slot`,
+    );
+    const b = parseFile(
+      "loop-b.mdt",
+      `---
+export const layout = "./loop-a.mdt";
+
+interface Props {}
+---
+@slot`,
+    );
+
+    expect(() => compile(b)).toThrow("Circular layout");
+    expect(() => generateDts(b)).toThrow("Circular layout");
+  });
+
+  test("generateDts merges the layout's Props type", () => {
+    const child = parseFile(
+      "dts.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {
+    task: string;
+}
+---
+@section instructions
+\${task}`,
+    );
+
+    const dts = generateDts(child);
+    expect(dts).toContain('import type { Props as __LayoutProps } from "./base.mdt";');
+    expect(dts).toContain('import("typemark").Template<__LayoutProps & {');
+  });
+
+  test("merges meta over the layout's", () => {
+    write(
+      "meta-base.mdt",
+      `---
+export const meta = { model: "gpt-4o", temperature: 0 };
+
+interface Props {}
+---
+@slot`,
+    );
+    const child = parseFile(
+      "meta-child.mdt",
+      `---
+export const layout = "./meta-base.mdt";
+export const meta = { temperature: 0.7 };
+
+interface Props {}
+---
+Hi`,
+    );
+
+    expect(compile(child).meta).toEqual({ model: "gpt-4o", temperature: 0.7 });
+    expect(generateDts(child)).toContain(
+      '    readonly meta: {\n        readonly model: "gpt-4o";\n        readonly temperature: 0.7;\n    };',
+    );
+  });
+
+  test("checkTemplate lets sections use the layout's props", () => {
+    const child = parseFile(
+      "check.mdt",
+      `---
+export const layout = "./base.mdt";
+
+interface Props {
+    task: string;
+}
+---
+@section instructions
+\${assistant}: \${task.toUpperCase()} \${missing}`,
+    );
+
+    const diagnostics = checkTemplate(child);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("missing");
+  });
+});
@@ -0,0 +1,120 @@
+import { test, expect, describe } from "bun:test";
+import { generateDts } from "../src/codegen.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { evalModule } from "./eval.ts";
+
+const chat = `---
+interface Props {
+    topic: string;
+    question: string;
+}
+---
+
+::: system
+You are an expert on \${topic}.
+
+::: user
+\${question}
+:::
+`;
+
+describe("chat message templates", () => {
+  test("parses message markers", () => {
+    const parsed = parse(chat);
+    const markers = parsed.ast.body.segments.filter(
+      (s) => s.type === "Message" || s.type === "MessageEnd",
+    );
+
+    expect(markers.map((s) => (s.type === "Message" ? s.role : ":::"))).toEqual([
+      "system",
+      "user",
+      ":::",
+    ]);
+    expect(markers[0]!.range.start.line).toBe(8);
+  });
+
+  test("renderMessages returns one message per block", () => {
+    const template = compile(parse(chat));
+
+    expect(template.renderMessages({ topic: "birds", question: "Can owls swim?" })).toEqual([
+      { role: "system", content: "You are an expert on birds." },
+      { role: "user", content: "Can owls swim?" },
+    ]);
+  });
+
+  test("render joins message contents", () => {
+    const template = compile(parse(chat));
+
+    expect(template.render({ topic: "birds", question: "Can owls swim?" })).toBe(
+      "You are an expert on birds.\n\nCan owls swim?",
+    );
+  });
+
+  test("plain templates render a single user message", () => {
+    const template = compile(
+      parse(`---
+interface Props {
+    name: string;
+}
+---
+Hello, \${name}!`),
+    );
+
+    expect(template.renderMessages({ name: "Ada" })).toEqual([
+      { role: "user", content: "Hello, Ada!" },
+    ]);
+  });
+
+  test("keeps the roles in raw", () => {
+    const template = compile(parse(chat));
+    expect(template.raw).toContain("::: system\n");
+  });
+
+  test("compileToString emits renderMessages", () => {
+    const output = compileToString(parse(chat));
+    expect(output).toContain('{ role: "system", content: `You are an expert on ${topic}.` },');
+
+    const mod = evalModule(output);
+    expect(mod.renderMessages({ topic: "tea", question: "Why?" })).toEqual([
+      { role: "system", content: "You are an expert on tea." },
+      { role: "user", content: "Why?" },
+    ]);
+  });
+
+  test("generateDts types the template as a ChatTemplate over its roles", () => {
+    const dts = generateDts(parse(chat));
+    expect(dts).toContain('declare const template: import("typemark").ChatTemplate<{');
+    expect(dts).toContain('}, "system" | "user">;');
+  });
+
+  test("rejects content outside a message block", () => {
+    let error: unknown;
+    try {
+      parse(`---
+interface Props {}
+---
+Preamble
+
+::: user
+Hi`);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    expect((error as TypemarkParseError).code).toBe("content-outside-message");
+    expect((error as TypemarkParseError).range.start.line).toBe(4);
+  });
+
+  test("rejects unknown roles", () => {
+    expect(() =>
+      parse(`---
+interface Props {}
+---
+::: narrator
+Once upon a time`),
+    ).toThrow('Unknown message role "narrator"; expected system, user, assistant');
+  });
+});
@@ -0,0 +1,51 @@
+import { spawnSync } from "node:child_process";
+import { symlinkSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { testFiles, type TestFiles } from "./files.ts";
+
+/** The Node binary to run, `$TYPEMARK_TEST_NODE` or the `node` on PATH */
+const node = process.env.TYPEMARK_TEST_NODE ?? "node";
+
+/**
+ * Run `node` with `args`, first checking that it's a version Typemark
+ * supports, which runs TypeScript helpers modules
+ */
+export function runNode(args: string[], cwd?: string) {
+  const version = spawnSync(node, ["--version"], { encoding: "utf8" }).stdout ?? "";
+  const [major = 0, minor = 0] = version.slice(1).split(".").map(Number);
+  if (!(major > 23 || (major === 23 && minor >= 6) || (major === 22 && minor >= 18))) {
+    throw new Error(
+      `Typemark needs Node.js 22.18 or later, but \`${node}\` is ${version.trim() || "missing"}; ` +
+        "put a newer node on PATH or point TYPEMARK_TEST_NODE at one",
+    );
+  }
+  return spawnSync(node, args, { cwd, encoding: "utf8", timeout: 60_000 });
+}
+
+function npm(args: string[], cwd: string): string {
+  const result = spawnSync("npm", args, { cwd, encoding: "utf8", timeout: 120_000 });
+  if (result.status !== 0) throw new Error(`npm ${args.join(" ")} failed:\n${result.stderr}`);
+  return result.stdout;
+}
+
+/**
+ * A temporary project with `typemark` and `typemark-loader` installed from
+ * the tarballs `npm pack` builds, as an app installs them from the registry.
+ * TypeScript, their peer dependency, and the packages named in `links` are
+ * linked from the workspace.
+ */
+export function packedProject(prefix: string, links: string[] = []): TestFiles {
+  const files = testFiles(prefix);
+  files.write("package.json", JSON.stringify({ name: "app", private: true, type: "module" }));
+  const tarballs = ["typemark", "typemark-loader"].map((name) => {
+    const packed = npm(["pack", "--silent", "--pack-destination", files.dir], join(import.meta.dir, "../..", name));
+    return join(files.dir, packed.trim().split("\n").at(-1)!);
+  });
+  npm(["install", "--offline", "--no-audit", "--no-fund", "--legacy-peer-deps", ...tarballs], files.dir);
+  for (const name of ["typescript", ...links]) {
+    const path = dirname(fileURLToPath(import.meta.resolve(`${name}/package.json`)));
+    symlinkSync(path, join(files.dir, "node_modules", name), "dir");
+  }
+  return files;
+}
@@ -0,0 +1,148 @@
+import { test, expect, describe } from "bun:test";
+import { generateDts } from "../src/codegen.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { parse } from "../src/parser.ts";
+import { generateOutputSchema } from "../src/schema.ts";
+import { outputShape } from "../src/shape.ts";
+import { evalModule } from "./eval.ts";
+
+const source = `---
+interface Props {
+    review: string;
+}
+
+interface Output {
+    /** Overall sentiment of the review */
+    sentiment: "positive" | "negative" | "neutral";
+    score: number;
+    topics: string[];
+    summary?: string;
+}
+---
+Classify this review and answer with JSON:
+
+\${review}`;
+
+const answer = { sentiment: "positive", score: 0.9, topics: ["battery"] };
+
+describe("structured output", () => {
+  test("the parser extracts interface Output", () => {
+    const parsed = parse(source);
+    expect(parsed.output).toStartWith("interface Output {");
+    expect(parsed.propKeys).toEqual(["review"]);
+    expect(parse("---\ninterface Props { a: string }\n---\n${a}").output).toBeUndefined();
+  });
+
+  test("emits the Output JSON Schema as outputSchema", () => {
+    const template = compile(parse(source));
+    expect(template.outputSchema).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        sentiment: {
+          description: "Overall sentiment of the review",
+          enum: ["positive", "negative", "neutral"],
+        },
+        score: { type: "number" },
+        topics: { type: "array", items: { type: "string" } },
+        summary: { type: "string" },
+      },
+      required: ["sentiment", "score", "topics"],
+    });
+    expect(template.outputSchema).toEqual(generateOutputSchema(parse(source))!);
+  });
+
+  test("templates without Output have no outputSchema or parseOutput", () => {
+    const template = compile(parse("---\ninterface Props { a: string }\n---\n${a}"));
+    expect(template.outputSchema).toBeUndefined();
+    expect(template.parseOutput).toBeUndefined();
+  });
+
+  test("parseOutput() reads JSON from a fenced block", () => {
+    const template = compile(parse(source));
+    const text = `Here's the classification:\n\n\`\`\`json\n${JSON.stringify(answer, null, 2)}\n\`\`\`\n\nLet me know!`;
+    expect(template.parseOutput!(text)).toEqual({ success: true, output: answer });
+  });
+
+  test("parseOutput() reads bare JSON and JSON inside prose", () => {
+    const template = compile(parse(source));
+    expect(template.parseOutput!(JSON.stringify(answer))).toEqual({ success: true, output: answer });
+    expect(template.parseOutput!(`Sure! ${JSON.stringify(answer)} Hope that helps.`)).toEqual({
+      success: true,
+      output: answer,
+    });
+  });
+
+  test("parseOutput() reports values that don't match Output", () => {
+    const result = compile(parse(source)).parseOutput!('{"sentiment": "mixed", "score": "high", "topics": []}');
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors.map((error) => error.message)).toEqual([
+      'sentiment: expected "positive" | "negative" | "neutral", received string',
+      "score: expected number, received string",
+    ]);
+
+    const wrongType = compile(parse(source)).parseOutput!("[1, 2]");
+    expect(wrongType).toEqual({
+      success: false,
+      errors: [{ path: "", expected: "object", received: "array", message: "output: expected object, received array" }],
+    });
+  });
+
+  test("parseOutput() reports responses without valid JSON", () => {
+    const template = compile(parse(source));
+    const none = template.parseOutput!("I can't classify this review.");
+    expect(none).toEqual({
+      success: false,
+      errors: [{ path: "", expected: "JSON", received: "text", message: "output: no JSON found" }],
+    });
+
+    const invalid = template.parseOutput!('```json\n{"sentiment": "positive",}\n```');
+    expect(invalid.success).toBe(false);
+    if (invalid.success) return;
+    expect(invalid.errors[0]!.message).toStartWith("output: invalid JSON (");
+    expect(invalid.errors[0]!.expected).toBe("JSON");
+  });
+
+  test("Output may use helper types declared alongside", () => {
+    const parsed = parse(`---
+interface Props {
+    text: string;
+}
+
+interface Entity {
+    name: string;
+    kind: "person" | "place";
+}
+
+interface Output {
+    entities: Entity[];
+}
+---
+\${text}`);
+    expect(outputShape(parsed)!.definitions).toHaveProperty("Entity");
+    const result = compile(parsed).parseOutput!('{"entities": [{"name": "Ada", "kind": "robot"}]}');
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors.map((error) => error.path)).toEqual(["entities[0].kind"]);
+  });
+
+  test("compileToString modules parse output", () => {
+    const output = compileToString(parse(source));
+    expect(output).toStartWith(
+      'import { parseOutput, approximateTokenizer, renderSupport as __renderSupport } from "typemark/runtime";',
+    );
+
+    const template = evalModule(output);
+    expect(template.outputSchema).toEqual(compile(parse(source)).outputSchema!);
+    expect(template.parseOutput!("```\n" + JSON.stringify(answer) + "\n```")).toEqual({ success: true, output: answer });
+    expect(template.parseOutput!('{"score": 1}').success).toBe(false);
+  });
+
+  test("generateDts types the template as Template<Props, Output>", () => {
+    const dts = generateDts(parse(source));
+    expect(dts).toContain('declare const template: import("typemark").Structured<import("typemark").Template<{');
+    expect(dts).toContain("}, Output>>;");
+    expect(dts).toContain("export type { Output };");
+  });
+});
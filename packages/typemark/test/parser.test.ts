@@ -1,5 +1,6 @@
 import { test, expect, describe } from "bun:test";
 import { parse } from "../src/parser.ts";
+import { TypemarkParseError } from "../src/errors.ts";
 
 describe("parse", () => {
   describe("basic template with inline Props", () => {
@@ -214,4 +215,351 @@ interface Props {
       expect(result.body).toBe("");
     });
   });
+
+  describe("positioned AST", () => {
+    const source = `---
+import type { User } from "./user";
+
+interface Props {
+    user: User;
+    count?: number;
+}
+---
+
+Hello, \${user.name}! You have \${count} tasks.`;
+
+    test("records frontmatter declarations with ranges", () => {
+      const { ast } = parse(source);
+      const [imp, props] = ast.frontmatter.declarations;
+
+      expect(imp!.type).toBe("ImportDeclaration");
+      expect(imp!.range.start).toEqual({ offset: 4, line: 2, column: 1 });
+      expect(props!.type).toBe("PropsDeclaration");
+      expect(props!.range.start.line).toBe(4);
+      expect(props!.range.end.line).toBe(7);
+    });
+
+    test("records Props members with names, optionality and types", () => {
+      const { ast } = parse(source);
+      const members = ast.frontmatter.props.members;
+
+      expect(members.map((m) => [m.name, m.optional, m.typeText])).toEqual([
+        ["user", false, "User"],
+        ["count", true, "number"],
+      ]);
+      expect(members[1]!.range.start).toMatchObject({ line: 6, column: 5 });
+    });
+
+    test("splits the body into text and expression segments", () => {
+      const { ast } = parse(source);
+      const segments = ast.body.segments;
+
+      expect(segments.map((s) => s.type)).toEqual([
+        "Text",
+        "Expression",
+        "Text",
+        "Expression",
+        "Text",
+      ]);
+
+      const first = segments[1]!;
+      expect(first.type === "Expression" && first.code).toBe("user.name");
+      expect(first.range.start).toMatchObject({ line: 10, column: 8 });
+      expect(first.range.end).toMatchObject({ line: 10, column: 20 });
+    });
+
+    test("keeps nested template literals inside one expression", () => {
+      const { ast } = parse(`---
+interface Props {
+    items: string[];
+}
+---
+\${items.map(i => \` * \${i} }\`).join("\\n")} done`);
+
+      const [expr, text] = ast.body.segments;
+      expect(expr!.type).toBe("Expression");
+      expect(expr!.type === "Expression" && expr!.code).toBe(
+        'items.map(i => ` * ${i} }`).join("\\n")',
+      );
+      expect(text!.type === "Text" && text!.value).toBe(" done");
+    });
+
+    test("treats escaped interpolations as text", () => {
+      const { ast } = parse(`---
+interface Props {
+    name: string;
+}
+---
+Literal \\\${name}`);
+
+      expect(ast.body.segments.map((s) => s.type)).toEqual(["Text"]);
+    });
+
+    test("treats other backslashes and backticks as text", () => {
+      const { ast } = parse(`---
+interface Props {
+    name: string;
+}
+---
+\`code\` \\n \\\\\\\${name} \${name}`);
+
+      expect(ast.body.segments.map((s) => s.type)).toEqual(["Text", "Expression"]);
+      expect(ast.body.segments[0]).toMatchObject({ value: "`code` \\n \\\\\\${name} " });
+    });
+  });
+
+  describe("parse errors", () => {
+    test("throws TypemarkParseError with file path and range", () => {
+      const source = `---
+interface Props {
+    name: string;
+
+---
+Hello`;
+
+      let error: unknown;
+      try {
+        parse(source, { filePath: "prompts/hello.mdt" });
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(TypemarkParseError);
+      const parseError = error as TypemarkParseError;
+      expect(parseError.code).toBe("syntax-error");
+      expect(parseError.filePath).toBe("prompts/hello.mdt");
+      expect(parseError.range.start).toMatchObject({ line: 3, column: 18 });
+      expect(parseError.message).toStartWith("prompts/hello.mdt:3:18 - '}' expected.");
+    });
+
+    test("includes a code frame pointing at the error", () => {
+      const source = `---
+interface Props {
+    name: string;
+}
+---
+Hello \${name`;
+
+      try {
+        parse(source);
+        throw new Error("expected parse to throw");
+      } catch (err) {
+        const parseError = err as TypemarkParseError;
+        expect(parseError.code).toBe("unterminated-expression");
+        expect(parseError.frame).toContain("> 6 | Hello ${name");
+        expect(parseError.frame).toContain("  | " + " ".repeat(6) + "^^");
+      }
+    });
+
+    test("rejects unexpected frontmatter statements", () => {
+      const source = `---
+interface Props {
+    name: string;
+}
+const x = 1;
+---
+Hello`;
+
+      expect(() => parse(source)).toThrow("Unexpected `const` in frontmatter");
+    });
+  });
+
+  describe("TypeScript frontmatter", () => {
+    test("keeps multi-line type aliases and imports whole", () => {
+      const result = parse(`---
+import type {
+    User,
+    Account,
+} from "./models";
+
+type Tone =
+    | "friendly"
+    | "formal";
+
+interface Props {
+    user: User;
+    tone: Tone;
+}
+---
+\${user}`);
+
+      expect(result.imports).toEqual([
+        'import type {\n    User,\n    Account,\n} from "./models";',
+      ]);
+      expect(result.preamble).toEqual(['type Tone =\n    | "friendly"\n    | "formal";']);
+    });
+
+    test("accepts enums and exported declarations", () => {
+      const result = parse(`---
+export enum Role {
+    Admin = "admin",
+    User = "user",
+}
+
+export interface Task {
+    title: string;
+}
+
+export interface Props {
+    role: Role;
+    tasks: Task[];
+}
+---
+\${role}`);
+
+      expect(result.preamble).toHaveLength(2);
+      expect(result.preamble[0]).toStartWith("export enum Role");
+      expect(result.preamble[1]).toStartWith("export interface Task");
+      expect(result.propKeys).toEqual(["role", "tasks"]);
+    });
+
+    test("ignores braces inside string literal types and comments", () => {
+      const result = parse(`---
+interface Props {
+    // a stray } in a comment
+    open: "{";
+    close: "}";
+    /* { */ name: string;
+}
+---
+\${name}`);
+
+      expect(result.propKeys).toEqual(["open", "close", "name"]);
+    });
+
+    test("records quoted keys but only destructures identifiers", () => {
+      const result = parse(`---
+interface Props {
+    "first-name": string;
+    'age': number;
+}
+---
+\${age}`);
+
+      expect(result.ast.frontmatter.props.members.map((m) => m.name)).toEqual([
+        "first-name",
+        "age",
+      ]);
+      expect(result.propKeys).toEqual(["age"]);
+    });
+
+    test("resolves keys inherited through extends", () => {
+      const result = parse(`---
+interface Base {
+    id: string;
+}
+
+interface Props extends Base {
+    name: string;
+}
+---
+\${id} \${name}`);
+
+      expect(result.propsBody).toBe("name: string;");
+      expect(result.propsExtends).toEqual(["Base"]);
+      expect(result.propKeys.sort()).toEqual(["id", "name"]);
+    });
+
+    test("accepts a type alias with intersections for Props", () => {
+      const result = parse(`---
+interface Base {
+    id: string;
+    secret: string;
+}
+
+type Props = Omit<Base, "secret"> & {
+    name: string;
+};
+---
+\${id} \${name}`);
+
+      expect(result.propsBody).toBe("name: string;");
+      expect(result.propsExtends).toEqual(['Omit<Base, "secret">']);
+      expect(result.propKeys.sort()).toEqual(["id", "name"]);
+    });
+
+    test("falls back to declared members when a base is imported", () => {
+      const result = parse(`---
+import type { Base } from "./base";
+
+interface Props extends Base {
+    name: string;
+}
+---
+\${name}`);
+
+      expect(result.propKeys).toEqual(["name"]);
+    });
+
+    test("reports TypeScript syntax errors at their position", () => {
+      expect(() =>
+        parse(`---
+interface Props {
+    name: string
+    age number;
+}
+---
+Hello`),
+      ).toThrow("<template>:4:5 - Property or signature expected.");
+    });
+
+    test("reads the meta declaration as a value", () => {
+      const result = parse(`---
+export const meta = {
+    model: "gpt-4o",
+    temperature: 0.2,
+    maxTokens: 1024,
+    stop: ["\\n\\n", \`END\`],
+    "owner-team": { name: "search", oncall: null },
+    offset: -1,
+    draft: false,
+} as const;
+
+interface Props {}
+---
+Hello`);
+
+      expect(result.meta).toEqual({
+        model: "gpt-4o",
+        temperature: 0.2,
+        maxTokens: 1024,
+        stop: ["\n\n", "END"],
+        "owner-team": { name: "search", oncall: null },
+        offset: -1,
+        draft: false,
+      });
+    });
+
+    test("rejects meta values that aren't literals", () => {
+      expect(() =>
+        parse(`---
+const model = "gpt-4o";
+export const meta = { model };
+
+interface Props {}
+---
+Hello`),
+      ).toThrow("Unexpected `const` in frontmatter");
+
+      expect(() =>
+        parse(`---
+export const meta = { model: process.env.MODEL };
+
+interface Props {}
+---
+Hello`),
+      ).toThrow(
+        "<template>:2:30 - `meta` values must be literals: strings, numbers, booleans, null, arrays or objects",
+      );
+
+      expect(() =>
+        parse(`---
+export const meta = "gpt-4o";
+
+interface Props {}
+---
+Hello`),
+      ).toThrow("`meta` must be an object literal");
+    });
+  });
 });
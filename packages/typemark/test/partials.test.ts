@@ -0,0 +1,209 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { join } from "node:path";
+import { checkTemplate } from "../src/checker.ts";
+import { generateDts } from "../src/codegen.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { resolvePartialGraph } from "../src/partials.ts";
+import { testFiles } from "./files.ts";
+
+const { dir, write, parseFile, remove } = testFiles("typemark-partials-");
+
+beforeAll(() => {
+  write(
+    "header.mdt",
+    `---
+interface Props {
+    title: string;
+}
+---
+# \${title}`,
+  );
+
+  write(
+    "section.mdt",
+    `---
+import Header from "./header.mdt";
+
+interface Props {
+    title: string;
+    text: string;
+}
+---
+\${Header({ title })}
+
+\${text}`,
+  );
+});
+
+afterAll(remove);
+
+describe("partials", () => {
+  test("parses .mdt default imports as partials, not type imports", () => {
+    const parsed = parse(`---
+import type { User } from "./user";
+import Header from "./header.mdt";
+
+interface Props {
+    user: User;
+}
+---
+\${Header({ title: user.name })}`);
+
+    expect(parsed.imports).toEqual(['import type { User } from "./user";']);
+    expect(parsed.partials.map((p) => [p.name, p.specifier])).toEqual([
+      ["Header", "./header.mdt"],
+    ]);
+  });
+
+  test("compile renders partials, including nested ones", () => {
+    const parsed = parseFile(
+      "page.mdt",
+      `---
+import Section from "./section.mdt";
+
+interface Props {
+    name: string;
+}
+---
+\${Section({ title: "Hello", text: \`Hi \${name}\` })}`,
+    );
+
+    expect(compile(parsed).render({ name: "Ada" })).toBe("# Hello\n\nHi Ada");
+  });
+
+  test("orders the dependency graph with dependencies first", () => {
+    const parsed = parseFile(
+      "page.mdt",
+      `---
+import Section from "./section.mdt";
+
+interface Props {}
+---
+\${Section({ title: "", text: "" })}`,
+    );
+
+    const paths = [...resolvePartialGraph(parsed).keys()];
+    expect(paths).toEqual([join(dir, "header.mdt"), join(dir, "section.mdt")]);
+  });
+
+  test("compileToString imports partials as modules", () => {
+    const output = compileToString(parse(`---
+import Header from "./header.mdt";
+
+interface Props {
+    title: string;
+}
+---
+\${Header({ title })}`));
+
+    expect(output).toContain('import __partial_Header from "./header.mdt";');
+    expect(output).toContain("const Header = (props) => __partial_Header.render(props);");
+  });
+
+  test("detects cycles at the import that closes them", () => {
+    write(
+      "a.mdt",
+      `---
+import B from "./b.mdt";
+
+interface Props {}
+---
+\${B({})}`,
+    );
+    const b = parseFile(
+      "b.mdt",
+      `---
+import A from "./a.mdt";
+
+interface Props {}
+---
+\${A({})}`,
+    );
+
+    let error: unknown;
+    try {
+      compile(b);
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    const parseError = error as TypemarkParseError;
+    expect(parseError.code).toBe("partial-cycle");
+    expect(parseError.filePath).toBe(join(dir, "a.mdt"));
+    expect(parseError.range.start.line).toBe(2);
+    expect(parseError.reason).toContain("b.mdt -> ");
+    expect(() => compileToString(b)).toThrow("Circular partial import");
+    expect(() => generateDts(b)).toThrow("Circular partial import");
+  });
+
+  test("reports missing partials", () => {
+    const parsed = parseFile(
+      "missing.mdt",
+      `---
+import Footer from "./footer.mdt";
+
+interface Props {}
+---
+\${Footer({})}`,
+    );
+
+    expect(() => compile(parsed)).toThrow('Cannot find partial "./footer.mdt"');
+  });
+
+  test("generateDts imports the partial's Props type", () => {
+    const parsed = parseFile(
+      "page.mdt",
+      `---
+import Header from "./header.mdt";
+
+interface Props {
+    title: string;
+}
+---
+\${Header({ title })}`,
+    );
+
+    const dts = generateDts(parsed);
+    expect(dts).toContain('import type { Props as __HeaderProps } from "./header.mdt";');
+    expect(dts).toContain("declare const Header: (props: __HeaderProps) => string;");
+    expect(dts).toContain('export type Props = import("typemark").PropsOf<typeof template>;');
+  });
+
+  test("checkTemplate reports mismatched partial arguments", () => {
+    const parsed = parseFile(
+      "page.mdt",
+      `---
+import Header from "./header.mdt";
+
+interface Props {
+    count: number;
+}
+---
+\${Header({ title: count })}`,
+    );
+
+    const diagnostics = checkTemplate(parsed);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.message).toContain("not assignable to type 'string'");
+    expect(diagnostics[0]!.line).toBe(8);
+  });
+
+  test("checkTemplate accepts valid partial calls", () => {
+    const parsed = parseFile(
+      "page.mdt",
+      `---
+import Header from "./header.mdt";
+
+interface Props {
+    title: string;
+}
+---
+\${Header({ title })}`,
+    );
+
+    expect(checkTemplate(parsed)).toEqual([]);
+  });
+});
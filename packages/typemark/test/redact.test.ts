@@ -0,0 +1,134 @@
+import { test, expect, describe } from "bun:test";
+import { compile, compileToString } from "../src/compiler.ts";
+import { parse } from "../src/parser.ts";
+import { evalModule } from "./eval.ts";
+
+const source = `---
+interface Props {
+    /** @redact */
+    email: string;
+    /**
+     * API keys the assistant may use
+     * @redact <key>
+     */
+    keys: string[];
+    question: string;
+}
+---
+From: \${email}
+Keys: \${keys.join(", ")}
+Question: \${question}`;
+
+const props = {
+  email: "ada@example.com",
+  keys: ["sk-123", "sk-456"],
+  question: "Is ada@example.com on the list?",
+};
+
+describe("redaction", () => {
+  test("parses @redact tags with their placeholders", () => {
+    expect(parse(source).redaction).toEqual([
+      { prop: "email", placeholder: "[REDACTED:email]" },
+      { prop: "keys", placeholder: "<key>" },
+    ]);
+  });
+
+  test("renderRedacted() replaces the expressions that read the props", () => {
+    expect(compile(parse(source)).renderRedacted(props)).toBe(
+      "From: [REDACTED:email]\nKeys: <key>\nQuestion: Is ada@example.com on the list?",
+    );
+  });
+
+  test("leaves static text and other values alone", () => {
+    const parsed = parse(`---
+interface Props {
+    /** @redact */
+    tier: string;
+    /** @redact */
+    age: number;
+    step: number;
+}
+---
+Provide a prompt for step 3 and step \${step}: \${tier}, \${age}`);
+    expect(compile(parsed).renderRedacted({ tier: "pro", age: 3, step: 3 })).toBe(
+      "Provide a prompt for step 3 and step 3: [REDACTED:tier], [REDACTED:age]",
+    );
+  });
+
+  test("replaces transformed values, block variables and quoted keys", () => {
+    const parsed = parse(`---
+interface Props {
+    /** @redact [email] */
+    emails: string[];
+    /** @redact [name] */
+    "full-name": string;
+    count: number;
+}
+---
+{{#each emails as email}}
+- \${email.toUpperCase()} (\${count})
+{{/each}}
+\${props["full-name"]}`);
+    const template = compile(parsed);
+    const redacted = "- [email] (2)\n- [email] (2)\n[name]";
+    const props = { emails: ["a@x.io", "b@x.io"], "full-name": "Ada", count: 2 };
+    expect(template.renderRedacted(props)).toBe(redacted);
+    expect(compile(parsed, { mode: "interpret" }).renderRedacted(props)).toBe(redacted);
+    expect(evalModule(compileToString(parsed)).renderRedacted(props)).toBe(redacted);
+  });
+
+  test("render() returns the text and its redacted copy in one pass", () => {
+    const template = compile(parse(source));
+    const result = template.render(props, { redacted: true });
+    expect(result.text).toBe(template.render(props));
+    expect(result.redacted).toBe(template.renderRedacted(props));
+  });
+
+  test("replaces members of the props", () => {
+    const parsed = parse(`---
+interface Props {
+    /** @redact [customer] */
+    customer: { name: string; company: string };
+}
+---
+\${customer.name} of \${customer.company}`);
+    const customer = { name: "Ada", company: "Ada Labs" };
+    expect(compile(parsed).renderRedacted({ customer })).toBe("[customer] of [customer]");
+  });
+
+  test("matches values as the escaping policy renders them", () => {
+    const parsed = parse(`---
+export const escape = "xml";
+
+interface Props {
+    /** @redact */
+    secret: string;
+}
+---
+<secret>\${secret}</secret>`);
+    expect(compile(parsed).renderRedacted({ secret: "a<b" })).toBe("<secret>[REDACTED:secret]</secret>");
+  });
+
+  test("renderRedacted() is render() without annotated props", () => {
+    const template = compile(parse("---\ninterface Props { a: string }\n---\n${a}"));
+    expect(template.renderRedacted({ a: "x" })).toBe("x");
+    expect(template.render({ a: "x" }, { redacted: true })).toEqual({ text: "x", redacted: "x" });
+  });
+
+  test("compileToString modules redact", () => {
+    const output = compileToString(parse(source));
+    expect(output).toStartWith(
+      'import { redact, approximateTokenizer, renderSupport as __renderSupport } from "typemark/runtime";',
+    );
+
+    const template = evalModule(output);
+    expect(template.renderRedacted({ ...props, keys: ["sk-1"] })).toBe(
+      "From: [REDACTED:email]\nKeys: <key>\nQuestion: Is ada@example.com on the list?",
+    );
+    expect(template.render(props, { redacted: true }).text).toBe(template.render(props));
+
+    const plain = compileToString(parse("---\ninterface Props { a: string }\n---\n${a}"));
+    expect(plain).not.toContain("redact(");
+    expect(evalModule(plain).renderRedacted({ a: "x" })).toBe("x");
+  });
+});
@@ -0,0 +1,132 @@
+import { test, expect, describe } from "bun:test";
+import { TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { generateJsonSchema } from "../src/schema.ts";
+
+describe("generateJsonSchema", () => {
+  test("describes Props with descriptions, optionals, unions and arrays", () => {
+    const schema = generateJsonSchema(
+      parse(`---
+interface Props {
+    /** The customer's display name */
+    name: string;
+    /**
+     * Previous orders, newest first
+     * @example []
+     */
+    orders: { id: number; total?: number }[];
+    tone?: "formal" | "casual";
+    note: string | null | undefined;
+    point: [number, number];
+    labels: Record<string, boolean>;
+}
+---
+\${name}`),
+    );
+
+    expect(schema).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        name: { type: "string", description: "The customer's display name" },
+        orders: {
+          type: "array",
+          description: "Previous orders, newest first",
+          items: {
+            type: "object",
+            properties: { id: { type: "number" }, total: { type: "number" } },
+            required: ["id"],
+          },
+        },
+        tone: { enum: ["formal", "casual"] },
+        note: { anyOf: [{ type: "string" }, { type: "null" }] },
+        point: {
+          type: "array",
+          prefixItems: [{ type: "number" }, { type: "number" }],
+          minItems: 2,
+          maxItems: 2,
+        },
+        labels: { type: "object", properties: {}, additionalProperties: { type: "boolean" } },
+      },
+      required: ["name", "orders", "note", "point", "labels"],
+    });
+  });
+
+  test("emits helper types as $defs", () => {
+    const schema = generateJsonSchema(
+      parse(`---
+enum Priority {
+    Low,
+    High = 10,
+    Urgent,
+}
+
+interface Task {
+    title: string;
+    priority: Priority;
+}
+
+interface Props extends Task {
+    subtasks: Task[];
+}
+---
+\${title}`),
+    );
+
+    expect(schema.allOf).toEqual([
+      { $ref: "#/$defs/Task" },
+      {
+        type: "object",
+        properties: { subtasks: { type: "array", items: { $ref: "#/$defs/Task" } } },
+        required: ["subtasks"],
+      },
+    ]);
+    expect(schema.$defs).toEqual({
+      Task: {
+        type: "object",
+        properties: { title: { type: "string" }, priority: { $ref: "#/$defs/Priority" } },
+        required: ["title", "priority"],
+      },
+      Priority: { enum: [0, 10, 11] },
+    });
+  });
+
+  test("rejects imported types it can't resolve", () => {
+    let error: unknown;
+    try {
+      generateJsonSchema(
+        parse(`---
+import type { User } from "./user";
+
+interface Props {
+    user: User;
+}
+---
+\${user}`),
+      );
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    const parseError = error as TypemarkParseError;
+    expect(parseError.code).toBe("unsupported-type");
+    expect(parseError.reason).toBe(
+      "Cannot represent `User` as JSON: only types declared in the frontmatter can be resolved",
+    );
+    expect(parseError.range.start).toMatchObject({ line: 5, column: 11 });
+  });
+
+  test("rejects functions", () => {
+    expect(() =>
+      generateJsonSchema(
+        parse(`---
+interface Props {
+    format: (value: number) => string;
+}
+---
+\${format(1)}`),
+      ),
+    ).toThrow("Cannot represent `(value: number) => string` as JSON: functions aren't JSON values");
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect, describe } from "bun:test";
+import { compileToString } from "../src/compiler.ts";
+import { parse } from "../src/parser.ts";
+import type { SourceMap } from "../src/sourcemap.ts";
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/** Decode mappings into absolute `[generatedColumn, source, line, column]` tuples per line */
+function decode(mappings: string): number[][][] {
+  const state = [0, 0, 0, 0];
+  return mappings.split(";").map((line) => {
+    state[0] = 0;
+    if (!line) return [];
+    return line.split(",").map((segment) => {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >> 1) : value >> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      return values.map((v, i) => (state[i] = state[i]! + v));
+    });
+  });
+}
+
+function sourceMap(output: string): SourceMap {
+  const match = /\/\/# sourceMappingURL=data:application\/json;charset=utf-8;base64,(.+)\n$/.exec(
+    output,
+  );
+  expect(match).not.toBeNull();
+  return JSON.parse(Buffer.from(match![1]!, "base64").toString());
+}
+
+describe("compileToString source maps", () => {
+  const source = `---
+interface Props {
+    name: string;
+    items: string[];
+}
+---
+
+Hello, \${name}!
+\${items.join(", ")}`;
+
+  test("embeds an inline source map pointing at the .mdt file", () => {
+    const output = compileToString(parse(source, { filePath: "/prompts/hello.mdt" }));
+    const map = sourceMap(output);
+
+    expect(map.version).toBe(3);
+    expect(map.sources).toEqual(["/prompts/hello.mdt"]);
+    expect(map.sourcesContent).toEqual([source]);
+  });
+
+  test("maps body expressions to their line and column", () => {
+    const output = compileToString(parse(source, { filePath: "/prompts/hello.mdt" }));
+    const lines = decode(sourceMap(output).mappings);
+    const generated = output.split("\n");
+
+    const locate = (text: string) => {
+      const line = generated.findIndex((l) => l.includes(text));
+      const column = generated[line]!.indexOf(text);
+      const segment = lines[line]!.find(([col]) => col === column);
+      return segment && { line: segment[2]! + 1, column: segment[3]! + 1 };
+    };
+
+    expect(locate("name}!")).toEqual({ line: 8, column: 10 });
+    expect(locate("items.join")).toEqual({ line: 9, column: 3 });
+  });
+
+  test("is omitted without a file path", () => {
+    expect(compileToString(parse(source))).not.toContain("sourceMappingURL");
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect, describe } from "bun:test";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TemplateBudgetError, TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { approximateTokenizer } from "../src/tokens.ts";
+import { evalModule } from "./eval.ts";
+
+describe("tokenizers", () => {
+  test("approximateTokenizer estimates English prose", () => {
+    expect(approximateTokenizer.count("Hello, world!")).toBe(4);
+    expect(approximateTokenizer.count("The quick brown fox jumps over the lazy dog.")).toBe(10);
+    expect(approximateTokenizer.count("")).toBe(0);
+  });
+});
+
+describe("countTokens and maxTokens", () => {
+  const source = `---
+export const maxTokens = 8;
+
+interface Props {
+    name: string;
+}
+---
+Hello, \${name}!`;
+
+  test("parses maxTokens", () => {
+    expect(parse(source).maxTokens).toBe(8);
+
+    let error: unknown;
+    try {
+      parse(source.replace("maxTokens = 8", "maxTokens = 1.5"));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    expect((error as TypemarkParseError).reason).toBe("`maxTokens` must be a positive integer");
+  });
+
+  test("counts tokens in the rendered prompt", () => {
+    const template = compile(parse(source));
+    expect(template.countTokens({ name: "Ada" })).toBe(4);
+    expect(template.maxTokens).toBe(8);
+
+    const byChar = compile(parse(source), { tokenizer: { count: (text) => text.length } });
+    expect(byChar.countTokens({ name: "Ada" })).toBe(11);
+  });
+
+  test("render() throws when over budget", () => {
+    const template = compile(parse(source, { filePath: "hello.mdt" }));
+    const long = { name: "a very long name that will not fit in the budget" };
+
+    expect(template.render({ name: "Ada" })).toBe("Hello, Ada!");
+    expect(() => template.render(long)).toThrow(TemplateBudgetError);
+    expect(() => template.render(long)).toThrow(
+      "hello.mdt - Rendered prompt has 14 tokens, over its budget of 8",
+    );
+    expect(() => template.renderMessages(long)).toThrow(TemplateBudgetError);
+    expect(template.countTokens(long)).toBe(14);
+
+    expect(compile(parse(source), { enforceBudget: false }).render(long)).toStartWith("Hello");
+  });
+
+  test("compileToString modules count and enforce the budget", () => {
+    const output = compileToString(parse(source));
+    expect(output).toStartWith(
+      'import { checkBudget, approximateTokenizer, renderSupport as __renderSupport } from "typemark/runtime";',
+    );
+
+    const template = evalModule(output);
+    expect(template.countTokens({ name: "Ada" })).toBe(4);
+    expect(template.maxTokens).toBe(8);
+    expect(() => template.render({ name: "a very long name that will not fit" })).toThrow(TemplateBudgetError);
+
+    const unbudgeted = compileToString(parse("---\ninterface Props {}\n---\nHi there"));
+    expect(unbudgeted).not.toContain("checkBudget");
+    expect(evalModule(unbudgeted).countTokens({})).toBe(2);
+  });
+});
@@ -0,0 +1,125 @@
+import { test, expect, describe } from "bun:test";
+import { compile, compileToString } from "../src/compiler.ts";
+import { parse } from "../src/parser.ts";
+import type { TraceSegment } from "../src/types.ts";
+import { evalModule } from "./eval.ts";
+
+/** Segments as `type text @line:column`, for readable expectations */
+function summary(segments: TraceSegment[]): string[] {
+  return segments.map((segment) =>
+    segment.type === "separator"
+      ? `separator ${JSON.stringify(segment.text)}`
+      : `${segment.type} ${JSON.stringify(segment.text)} @${segment.range.start.line}:${segment.range.start.column}`,
+  );
+}
+
+const source = `---
+interface Props {
+    name: string;
+    tasks: string[];
+}
+---
+Hello, \${name}!
+
+{{#each tasks as task}}
+- \${task.toUpperCase()}
+{{/each}}
+Done.`;
+
+const props = { name: "Ada", tasks: ["write", "test"] };
+
+describe("renderWithTrace", () => {
+  test("maps each span of output to its text or expression", () => {
+    const template = compile(parse(source));
+    const trace = template.renderWithTrace(props);
+
+    expect(trace.text).toBe(template.render(props));
+    expect(trace.segments.map((segment) => segment.text).join("")).toBe(trace.text);
+    expect(summary(trace.segments)).toEqual([
+      'text "Hello, " @7:1',
+      'expression "Ada" @7:8',
+      'text "!\\n\\n" @7:15',
+      'text "- " @10:1',
+      'expression "WRITE" @10:3',
+      'text "\\n" @10:24',
+      'text "- " @10:1',
+      'expression "TEST" @10:3',
+      'text "\\n" @10:24',
+      'text "Done." @12:1',
+    ]);
+  });
+
+  test("records each expression's code, range and value", () => {
+    const trace = compile(parse(source, { filePath: "hello.mdt" })).renderWithTrace(props);
+    expect(trace.segments[1]).toEqual({
+      type: "expression",
+      text: "Ada",
+      value: "Ada",
+      expression: "name",
+      range: { start: { offset: 74, line: 7, column: 8 }, end: { offset: 81, line: 7, column: 15 } },
+      filePath: "hello.mdt",
+    });
+  });
+
+  test("matches render() after normalization and escaping", () => {
+    const parsed = parse(`---
+export const escape = "xml";
+
+interface Props {
+    a: string;
+    b?: string;
+}
+---
+\${a}   \${b ?? ""}
+
+
+
+{{#if b}}
+b
+{{/if}}
+end`);
+    const template = compile(parsed);
+    for (const props of [{ a: "<x>" }, { a: "1", b: "  " }]) {
+      const trace = template.renderWithTrace(props);
+      expect(trace.text).toBe(template.render(props));
+      expect(trace.segments.map((segment) => segment.text).join("")).toBe(trace.text);
+    }
+    expect(template.renderWithTrace({ a: "<x>" }).segments[0]).toMatchObject({ text: "&lt;x&gt;", value: "<x>" });
+  });
+
+  test("separates the messages of chat templates", () => {
+    const template = compile(
+      parse(`---
+interface Props {
+    question: string;
+}
+---
+::: system
+Be brief.
+:::
+
+::: user
+\${question}
+:::`),
+    );
+    const trace = template.renderWithTrace({ question: "Why?" });
+    expect(trace.text).toBe(template.render({ question: "Why?" }));
+    expect(summary(trace.segments)).toEqual([
+      'text "Be brief." @7:1',
+      'separator "\\n\\n"',
+      'expression "Why?" @11:1',
+    ]);
+  });
+
+  test("works in compileToString modules", () => {
+    const output = compileToString(parse(source));
+    const template = evalModule(output);
+    const trace = template.renderWithTrace(props);
+    expect(trace.text).toBe(template.render(props));
+    expect(summary(trace.segments)).toHaveLength(10);
+
+    // The tracing functions come from the runtime rather than each module
+    expect(output).toContain("const { __trace, __normalizeTrace, __traced } = __renderSupport(");
+    expect(output).not.toContain("function __trace");
+  });
+});
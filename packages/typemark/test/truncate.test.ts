@@ -0,0 +1,96 @@
+import { test, expect, describe } from "bun:test";
+import { generateDts } from "../src/codegen.ts";
+import { compile } from "../src/compiler.ts";
+import { TemplateBudgetError, TypemarkParseError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import type { Tokenizer } from "../src/tokens.ts";
+
+// One token per word keeps the expected numbers readable
+const words: Tokenizer = { count: (text) => text.split(/\s+/).filter(Boolean).length };
+
+const source = `---
+export const maxTokens = 12;
+
+interface Props {
+    question: string;
+    /**
+     * Earlier turns, oldest first
+     * @priority 1
+     */
+    history: string[];
+    /** @priority 2 @truncate middle */
+    document: string;
+}
+---
+\${history.join("\\n")}
+Document: \${document}
+Question: \${question}`;
+
+const props = {
+  question: "Why?",
+  history: ["one two", "three four", "five six"],
+  document: "a b c d e f",
+};
+
+describe("renderWithin", () => {
+  test("parses @priority and @truncate tags", () => {
+    expect(parse(source).truncation).toEqual([
+      { prop: "history", priority: 1 },
+      { prop: "document", priority: 2, strategy: "middle" },
+    ]);
+  });
+
+  test("leaves output that fits alone", () => {
+    const template = compile(parse(source), { tokenizer: words });
+    const result = template.renderWithin!(props, { maxTokens: 100 });
+    expect(result.cut).toEqual([]);
+    expect(result.text).toBe("one two\nthree four\nfive six\nDocument: a b c d e f\nQuestion: Why?");
+    expect(result.tokens).toBe(15);
+  });
+
+  test("drops the oldest items of the lowest priority first", () => {
+    const template = compile(parse(source), { tokenizer: words });
+    expect(template.renderWithin!(props)).toEqual({
+      text: "five six\nDocument: a b c d e f\nQuestion: Why?",
+      tokens: 11,
+      cut: [{ prop: "history", strategy: "start", removed: 2, unit: "items" }],
+    });
+  });
+
+  test("moves on to higher priorities and cuts text from the middle", () => {
+    const template = compile(parse(source), { tokenizer: words });
+    const result = template.renderWithin!(props, { maxTokens: 6 });
+    expect(result.text).toBe("\nDocument: a b…e f\nQuestion: Why?");
+    expect(result.cut).toEqual([
+      { prop: "history", strategy: "start", removed: 3, unit: "items" },
+      { prop: "document", strategy: "middle", removed: 5, unit: "characters" },
+    ]);
+  });
+
+  test("throws when nothing left to cut brings it under budget", () => {
+    const template = compile(parse(source), { tokenizer: words });
+    expect(() => template.renderWithin!(props, { maxTokens: 2 })).toThrow(TemplateBudgetError);
+  });
+
+  test("is only present when a prop is annotated", () => {
+    expect(compile(parse("---\ninterface Props { a: string }\n---\n${a}")).renderWithin).toBeUndefined();
+  });
+
+  test("types annotated templates as Truncatable", () => {
+    expect(generateDts(parse(source))).toContain(
+      'declare const template: import("typemark").Truncatable<import("typemark").Template<{',
+    );
+  });
+
+  test("reports invalid annotations", () => {
+    let error: unknown;
+    try {
+      parse(source.replace("@truncate middle", "@truncate sideways"));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TypemarkParseError);
+    expect((error as TypemarkParseError).code).toBe("invalid-annotation");
+    expect((error as TypemarkParseError).reason).toBe("`@truncate` must be one of: start, end, middle");
+  });
+});
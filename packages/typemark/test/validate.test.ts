@@ -0,0 +1,274 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { compile, compileToString } from "../src/compiler.ts";
+import { TemplatePropsError } from "../src/errors.ts";
+import { parse } from "../src/parser.ts";
+import { propsShape } from "../src/shape.ts";
+
+const source = `---
+import type { Account } from "./account";
+
+enum Tone {
+    Formal = "formal",
+    Casual = "casual",
+}
+
+interface Hobby {
+    name: string;
+    tags?: string[];
+}
+
+interface Props {
+    user: {
+        name: string;
+        age: number;
+        hobbies: Hobby[];
+    };
+    tone: Tone;
+    mode: "short" | "long";
+    limit?: number | null;
+    account: Account;
+}
+---
+\${user.name} (\${tone})`;
+
+const valid = {
+  user: { name: "Ada", age: 36, hobbies: [{ name: "chess" }] },
+  tone: "formal",
+  mode: "short",
+  account: { anything: true },
+};
+
+describe("propsShape", () => {
+  test("describes Props and its helper types", () => {
+    const shape = propsShape(parse(source));
+
+    expect(shape.definitions.Tone).toEqual({
+      kind: "union",
+      members: [
+        { kind: "literal", value: "formal" },
+        { kind: "literal", value: "casual" },
+      ],
+    });
+    expect(shape.type).toMatchObject({
+      kind: "object",
+      properties: [
+        { name: "user", optional: false },
+        { name: "tone", type: { kind: "ref", name: "Tone" } },
+        { name: "mode" },
+        { name: "limit", optional: true },
+        { name: "account", type: { kind: "unknown" } },
+      ],
+    });
+  });
+
+  test("keeps recursive helper types finite", () => {
+    const shape = propsShape(
+      parse(`---
+interface Node {
+    label: string;
+    children: Node[];
+}
+
+interface Props {
+    root: Node;
+}
+---
+\${root.label}`),
+    );
+
+    expect(shape.definitions.Node).toMatchObject({
+      kind: "object",
+      properties: [
+        { name: "label" },
+        { name: "children", type: { kind: "array", element: { kind: "ref", name: "Node" } } },
+      ],
+    });
+  });
+
+  test("keeps a layout's helper types apart from the template's of the same name", () => {
+    const dir = mkdtempSync(join(import.meta.dir, ".tmp-validate-"));
+    try {
+      writeFileSync(
+        join(dir, "base.mdt"),
+        `---
+interface Item {
+    id: number;
+}
+
+interface Props {
+    pinned: Item;
+}
+---
+@slot default`,
+      );
+      const path = join(dir, "main.mdt");
+      const main = `---
+export const layout = "./base.mdt";
+
+interface Item {
+    title: string;
+}
+
+interface Props {
+    items: Item[];
+}
+---
+\${items.length}`;
+      writeFileSync(path, main);
+
+      const shape = propsShape(parse(main, { filePath: path }));
+      expect(shape.definitions.Item).toMatchObject({ properties: [{ name: "title" }] });
+      expect(shape.definitions.Item_2).toMatchObject({ properties: [{ name: "id" }] });
+
+      const template = compile(parse(main, { filePath: path }), { validate: true });
+      expect(template.validate!({ items: [{ title: "a" }], pinned: { id: 1 } }).success).toBe(true);
+      expect(template.validate!({ items: [{ title: "a" }], pinned: { title: "a" } }).success).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("template.validate", () => {
+  test("is only present when requested", () => {
+    expect(compile(parse(source)).validate).toBeUndefined();
+    expect(compile(parse(source), { validate: true }).validate).toBeFunction();
+  });
+
+  test("accepts valid props", () => {
+    const template = compile(parse(source), { validate: true });
+    expect(template.validate!(valid)).toEqual({ success: true, props: valid });
+  });
+
+  test("reports each invalid value with its path", () => {
+    const template = compile(parse(source), { validate: true });
+    const result = template.validate!({
+      ...valid,
+      user: { name: "Ada", age: "36", hobbies: [{ name: "chess", tags: [1] }] },
+      mode: "medium",
+      limit: null,
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors).toEqual([
+      {
+        path: "user.age",
+        expected: "number",
+        received: "string",
+        message: "user.age: expected number, received string",
+      },
+      {
+        path: "user.hobbies[0].tags[0]",
+        expected: "string",
+        received: "number",
+        message: "user.hobbies[0].tags[0]: expected string, received number",
+      },
+      {
+        path: "mode",
+        expected: '"short" | "long"',
+        received: "string",
+        message: 'mode: expected "short" | "long", received string',
+      },
+    ]);
+  });
+
+  test("reports missing required props", () => {
+    const template = compile(parse(source), { validate: true });
+    const result = template.validate!({ ...valid, tone: undefined });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        {
+          path: "tone",
+          expected: "Tone",
+          received: "undefined",
+          message: "tone: expected Tone, received undefined",
+        },
+      ],
+    });
+  });
+
+  test("rejects a non-object", () => {
+    const template = compile(parse(source), { validate: true });
+    const result = template.validate!("hello");
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errors[0]!.message).toBe("props: expected object, received string");
+  });
+});
+
+describe("strict mode", () => {
+  test("throws before rendering invalid props", () => {
+    const template = compile(parse(source), { strict: true });
+
+    expect(template.render(valid as never)).toBe("Ada (formal)");
+    expect(() => template.render({ ...valid, user: { name: "Ada" } })).toThrow(TemplatePropsError);
+    expect(() => template.render({ ...valid, user: { name: "Ada" } })).toThrow(
+      "user.age: expected number, received undefined",
+    );
+  });
+
+  test("validates partial props", () => {
+    const dir = mkdtempSync(join(import.meta.dir, ".tmp-validate-"));
+    try {
+      writeFileSync(
+        join(dir, "badge.mdt"),
+        `---
+interface Props {
+    count: number;
+}
+---
+[\${count}]`,
+      );
+      const path = join(dir, "main.mdt");
+      const main = `---
+import Badge from "./badge.mdt";
+
+interface Props {}
+---
+\${Badge({ count: "3" })}`;
+      writeFileSync(path, main);
+
+      const template = compile(parse(main, { filePath: path }), { strict: true });
+      expect(() => template.render({})).toThrow("count: expected number, received string");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("compileToString with validation", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(import.meta.dir, ".tmp-validate-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("emits no validator by default", () => {
+    expect(compileToString(parse(source))).not.toContain("validateProps");
+  });
+
+  test("emits a strict module that validates with typemark/runtime", async () => {
+    const output = compileToString(parse(source), { strict: true });
+    expect(output).toStartWith(
+      'import { assertValidProps, validateProps, approximateTokenizer, renderSupport as __renderSupport } from "typemark/runtime";',
+    );
+
+    const path = join(dir, "strict.mjs");
+    writeFileSync(path, output);
+    const { default: template } = await import(path);
+
+    expect(template.render(valid)).toBe("Ada (formal)");
+    expect(template.validate({ ...valid, mode: 1 }).success).toBe(false);
+    expect(() => template.render({ ...valid, tone: "loud" })).toThrow(
+      "tone: expected Tone, received string",
+    );
+  });
+});
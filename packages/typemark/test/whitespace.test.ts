@@ -0,0 +1,162 @@
+import { test, expect, describe } from "bun:test";
+import { checkTemplate } from "../src/checker.ts";
+import { compile, compileToString } from "../src/compiler.ts";
+import { parse } from "../src/parser.ts";
+import type { CompileOptions } from "../src/compiler.ts";
+import type { Message } from "../src/types.ts";
+import { evalModule } from "./eval.ts";
+
+/** Render with both compile() and compileToString(), which must agree */
+function renderBoth(source: string, props: Record<string, unknown>, options?: CompileOptions): string {
+  const parsed = parse(source);
+  const rendered = compile(parsed, options).render(props);
+  expect(evalModule(compileToString(parsed, options)).render(props)).toBe(rendered);
+  return rendered;
+}
+
+describe("whitespace control", () => {
+  test("`${- expr}` and `${expr -}` trim the text around an expression", () => {
+    const source = `---
+interface Props {
+    items: string[];
+}
+---
+Items:
+    \${- items.join(", ") -}
+    .`;
+
+    expect(renderBoth(source, { items: ["a", "b"] })).toBe("Items:a, b.");
+  });
+
+  test("parses markers out of the expression code", () => {
+    const parsed = parse(`---
+interface Props {
+    name: string;
+}
+---
+\${- name -}`);
+
+    expect(parsed.ast.body.segments[0]).toMatchObject({
+      type: "Expression",
+      code: " name ",
+      trimBefore: true,
+      trimAfter: true,
+      codeRange: { start: { column: 4 }, end: { column: 10 } },
+    });
+  });
+
+  test("keeps negation without a space", () => {
+    const source = `---
+interface Props {
+    offset: number;
+}
+---
+Shift by \${-offset}.`;
+
+    expect(renderBoth(source, { offset: 3 })).toBe("Shift by -3.");
+  });
+
+  test("type-checks templates using markers", () => {
+    const parsed = parse(`---
+interface Props {
+    name: string;
+}
+---
+Hello,
+\${- name -}
+!`);
+
+    expect(checkTemplate(parsed)).toEqual([]);
+  });
+});
+
+describe("dedent", () => {
+  test("strips indentation and blank edge lines from nested template literals", () => {
+    const source = `---
+interface Props {
+    isAdmin: boolean;
+    tasks: string[];
+}
+---
+Hello.
+
+\${isAdmin ? \`
+    You are an admin. Your tasks:
+    \${tasks.map((task) => \`
+        * \${task}
+    \`).join("\\n")}
+\` : ""}`;
+
+    expect(renderBoth(source, { isAdmin: true, tasks: ["a", "b"] })).toBe(
+      "Hello.\n\nYou are an admin. Your tasks:\n* a\n* b",
+    );
+    expect(renderBoth(source, { isAdmin: false, tasks: [] })).toBe("Hello.\n\n");
+  });
+
+  test("leaves single-line and tagged template literals alone", () => {
+    const source = `---
+interface Props {
+    name: string;
+}
+---
+\${\`  [\${name}]  \`}|\${String.raw\`
+    a\\n\`}`;
+
+    expect(renderBoth(source, { name: "x" }, { normalize: false })).toBe("  [x]  |\n    a\\n");
+  });
+});
+
+describe("normalize", () => {
+  const source = `---
+interface Props {
+    note?: string;
+}
+---
+First line\${"   "}
+\${note ?? ""}
+
+
+Last line`;
+
+  test("is off by default", () => {
+    expect(renderBoth(source, {})).toBe("First line   \n\n\n\nLast line");
+    expect(renderBoth(source, {}, { normalize: false })).toBe("First line   \n\n\n\nLast line");
+  });
+
+  test("collapses blank lines and strips trailing spaces when turned on", () => {
+    expect(renderBoth(source, {}, { normalize: true })).toBe("First line\n\nLast line");
+  });
+
+  test("can be configured", () => {
+    expect(renderBoth(source, {}, { normalize: { collapseBlankLines: false } })).toBe(
+      "First line\n\n\n\nLast line",
+    );
+  });
+
+  test("applies to each chat message", () => {
+    const parsed = parse(`---
+interface Props {
+    question: string;
+}
+---
+::: system
+Answer briefly.
+
+
+
+Be kind.
+:::
+
+::: user
+\${question}
+:::`);
+
+    const messages: Message[] = [
+      { role: "system", content: "Answer briefly.\n\nBe kind." },
+      { role: "user", content: "Why?" },
+    ];
+    const options = { normalize: true };
+    expect(compile(parsed, options).renderMessages({ question: "Why?" })).toEqual(messages);
+    expect(evalModule(compileToString(parsed, options)).renderMessages({ question: "Why?" })).toEqual(messages);
+  });
+});